@@ -0,0 +1,122 @@
+/**
+ * Access control and rate limiting
+ * Requests carry a shared token (Authorization: Bearer or ?token=) or an HMAC-signed URL
+ * with an expiry. Each caller is then held to a number of renders per hour, so a stuck
+ * device can't burn through the calendar and weather API quotas.
+ */
+
+import { sha256Hex } from './hash';
+
+export interface AuthSettings {
+  tokens: string[];            // Accepted shared secrets
+  signingKey: string | null;   // HMAC key for signed URLs
+}
+
+// Who a request counts as for rate limiting; null when it isn't allowed in
+export type AuthResult = { identity: string } | null;
+
+const RATE_LIMIT_CACHE_KEY = 'https://crosspoint-calendar.internal/rate-limit-v1';
+const RATE_LIMIT_WINDOW = 3600; // seconds
+
+// Per-isolate counters in front of the Cache API
+const memoryCounts = new Map<string, { window: number; count: number }>();
+
+export function isAuthRequired(settings: AuthSettings): boolean {
+  return settings.tokens.length > 0 || settings.signingKey !== null;
+}
+
+// Compare without returning early, so response timing doesn't reveal how much matched
+function constantTimeEqual(a: string, b: string): boolean {
+  let difference = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    difference |= (a.charCodeAt(i) || 0) ^ (b.charCodeAt(i) || 0);
+  }
+  return difference === 0;
+}
+
+async function hmacHex(key: string, message: string): Promise<string> {
+  const cryptoKey = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(key),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', cryptoKey, new TextEncoder().encode(message));
+  return Array.from(new Uint8Array(signature), (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Check a signed URL: sig must be the last query parameter and hold the hex HMAC-SHA256 of
+ * everything before it (path and query), which must include an unexpired expires=<unix seconds>.
+ */
+export async function verifySignedUrl(url: URL, signingKey: string, now: Date): Promise<boolean> {
+  const match = url.search.match(/^(.*)[?&]sig=([0-9a-fA-F]{64})$/);
+  if (!match) return false;
+  const signedPart = `${url.pathname}${match[1] ? `?${match[1].slice(1)}` : ''}`;
+
+  const expires = parseInt(url.searchParams.get('expires') ?? '', 10);
+  if (!(expires * 1000 > now.getTime())) return false;
+
+  return constantTimeEqual(await hmacHex(signingKey, signedPart), match[2].toLowerCase());
+}
+
+function getPresentedToken(request: Request, url: URL): string | null {
+  const header = request.headers.get('Authorization')?.match(/^Bearer\s+(.+)$/i);
+  return header?.[1].trim() ?? url.searchParams.get('token');
+}
+
+/**
+ * Decide whether a request may render. Without any tokens or signing key configured,
+ * everyone may, and callers are told apart by IP address.
+ */
+export async function authorizeRequest(request: Request, url: URL, settings: AuthSettings, now: Date): Promise<AuthResult> {
+  if (!isAuthRequired(settings)) {
+    return { identity: `ip:${request.headers.get('CF-Connecting-IP') ?? 'unknown'}` };
+  }
+
+  const token = getPresentedToken(request, url);
+  if (token && settings.tokens.some((accepted) => constantTimeEqual(token, accepted))) {
+    return { identity: `token:${await sha256Hex(token)}` };
+  }
+
+  if (settings.signingKey && await verifySignedUrl(url, settings.signingKey, now)) {
+    return { identity: `sig:${url.searchParams.get('sig')!.toLowerCase()}` };
+  }
+
+  return null;
+}
+
+/**
+ * Count a request against the caller's hourly allowance. Returns the seconds until the
+ * window resets when the limit is exceeded, or 0 if the request may go ahead.
+ * Counts live per isolate and in the colo's cache, so the limit is approximate.
+ */
+export async function checkRateLimit(identity: string, limit: number, now: Date): Promise<number> {
+  if (limit <= 0) return 0;
+
+  const seconds = Math.floor(now.getTime() / 1000);
+  const window = Math.floor(seconds / RATE_LIMIT_WINDOW);
+  const retryAfter = (window + 1) * RATE_LIMIT_WINDOW - seconds;
+  const id = await sha256Hex(identity);
+
+  const cache = caches.default;
+  const cacheKey = `${RATE_LIMIT_CACHE_KEY}?id=${id}&window=${window}`;
+  let count = memoryCounts.get(id)?.window === window ? memoryCounts.get(id)!.count : 0;
+  const cachedResponse = await cache.match(cacheKey);
+  if (cachedResponse) {
+    count = Math.max(count, parseInt(await cachedResponse.text(), 10) || 0);
+  }
+
+  count++;
+  if (memoryCounts.size > 1000) memoryCounts.clear();  // Mostly last hour's callers
+  memoryCounts.set(id, { window, count });
+  await cache.put(cacheKey, new Response(String(count), {
+    headers: {
+      'Content-Type': 'text/plain',
+      'Cache-Control': `public, max-age=${retryAfter}`,
+    },
+  }));
+
+  return count > limit ? retryAfter : 0;
+}
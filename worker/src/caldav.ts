@@ -0,0 +1,114 @@
+/**
+ * CalDAV (RFC 4791) client
+ * Runs a calendar-query REPORT for a time range and hands each returned
+ * calendar-data resource to the ICS parser.
+ */
+
+import { IcsEvent, parseIcsEvents } from './ics';
+
+export interface CalDavCredentials {
+  username: string;
+  password: string;
+}
+
+// iCalendar UTC format expected by time-range filters, e.g. 20261019T040000Z
+function formatCalDavTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function buildCalendarQuery(rangeStart: Date, rangeEnd: Date): string {
+  const start = formatCalDavTime(rangeStart);
+  const end = formatCalDavTime(rangeEnd);
+  return `<?xml version="1.0" encoding="utf-8" ?>
+<c:calendar-query xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">
+  <d:prop>
+    <d:getetag/>
+    <c:calendar-data/>
+  </d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:time-range start="${start}" end="${end}"/>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+}
+
+function decodeXmlText(text: string): string {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  if (cdata) return cdata[1];
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 10)))
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Extract calendar-data bodies from a DAV multistatus response.
+ * Responses whose propstat isn't 200 (e.g. 404 for a missing prop) are skipped.
+ * Namespace prefixes vary by server (d:, D:, cal:, C:, none), so tags are matched by local name.
+ */
+export function parseMultistatus(xml: string): string[] {
+  const calendars: string[] = [];
+  const responses = xml.match(/<(?:[\w-]+:)?response[\s>][\s\S]*?<\/(?:[\w-]+:)?response>/g) || [];
+
+  for (const response of responses) {
+    const propstats = response.match(/<(?:[\w-]+:)?propstat[\s>][\s\S]*?<\/(?:[\w-]+:)?propstat>/g) || [response];
+    for (const propstat of propstats) {
+      const status = propstat.match(/<(?:[\w-]+:)?status[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?status>/);
+      if (status && !/\s200\s/.test(` ${status[1]} `)) continue;
+
+      const data = propstat.match(/<(?:[\w-]+:)?calendar-data[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?calendar-data>/);
+      if (data) {
+        const ics = decodeXmlText(data[1]).trim();
+        if (ics) calendars.push(ics);
+      }
+    }
+  }
+
+  return calendars;
+}
+
+/**
+ * Query a CalDAV collection (e.g. Radicale or Nextcloud calendar URL) for events
+ * overlapping [rangeStart, rangeEnd), expanding recurrences locally.
+ */
+export async function fetchCalDavEvents(
+  collectionUrl: string,
+  credentials: CalDavCredentials | null,
+  rangeStart: Date,
+  rangeEnd: Date,
+  defaultTimezone: string
+): Promise<IcsEvent[]> {
+  const headers: { [key: string]: string } = {
+    'Content-Type': 'application/xml; charset=utf-8',
+    'Depth': '1',
+    'User-Agent': 'CrossPointCalendar/1.0 (e-ink display; https://github.com/ckorhonen/crosspoint-calendar)',
+  };
+  if (credentials) {
+    const userPass = new TextEncoder().encode(`${credentials.username}:${credentials.password}`);
+    headers['Authorization'] = `Basic ${btoa(String.fromCharCode(...userPass))}`;
+  }
+
+  const response = await fetch(collectionUrl, {
+    method: 'REPORT',
+    headers,
+    body: buildCalendarQuery(rangeStart, rangeEnd),
+  });
+  if (response.status !== 207 && !response.ok) {
+    console.error(`CalDAV HTTP error: ${response.status} ${response.statusText}`);
+    throw new Error(`CalDAV error: ${response.status}`);
+  }
+
+  const events: IcsEvent[] = [];
+  for (const ics of parseMultistatus(await response.text())) {
+    events.push(...parseIcsEvents(ics, rangeStart, rangeEnd, defaultTimezone));
+  }
+  events.sort((a, b) => a.start.getTime() - b.start.getTime());
+  return events;
+}
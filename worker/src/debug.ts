@@ -0,0 +1,69 @@
+/**
+ * Debug preview page
+ * A self-contained HTML page with the render embedded at 1x and 2x zoom beside the settings
+ * it was drawn with, so a layout can be checked in a browser instead of on a panel.
+ */
+
+export interface DebugPage {
+  png: Uint8Array;
+  width: number;   // Panel pixels, after rotation
+  height: number;
+  settings: Array<[string, string]>;  // Label and value rows
+  links: Array<[string, string]>;     // Label and href
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function toBase64(bytes: Uint8Array): string {
+  // In chunks, since spreading a whole image into fromCharCode overflows the argument limit
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+export function renderDebugPage(page: DebugPage): string {
+  const source = `data:image/png;base64,${toBase64(page.png)}`;
+  const rows = page.settings
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('\n');
+  const links = page.links
+    .map(([label, href]) => `<a href="${escapeHtml(href)}">${escapeHtml(label)}</a>`)
+    .join(' · ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>CrossPoint Calendar preview</title>
+<style>
+  body { font: 14px/1.4 system-ui, sans-serif; margin: 24px; background: #ddd; color: #111; }
+  .views { display: flex; gap: 24px; align-items: flex-start; flex-wrap: wrap; }
+  figure { margin: 0; }
+  figcaption { margin-bottom: 4px; font-weight: 600; }
+  img { display: block; image-rendering: pixelated; box-shadow: 0 0 0 1px #888; }
+  table { border-collapse: collapse; margin-bottom: 16px; }
+  th, td { padding: 2px 12px 2px 0; text-align: left; vertical-align: top; }
+  td { font-family: ui-monospace, monospace; word-break: break-all; }
+</style>
+</head>
+<body>
+<table>
+${rows}
+</table>
+<p>${links}</p>
+<div class="views">
+<figure><figcaption>1×</figcaption><img src="${source}" width="${page.width}" height="${page.height}" alt="Render at 1x"></figure>
+<figure><figcaption>2×</figcaption><img src="${source}" width="${page.width * 2}" height="${page.height * 2}" alt="Render at 2x"></figure>
+</div>
+</body>
+</html>
+`;
+}
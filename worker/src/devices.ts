@@ -0,0 +1,70 @@
+/**
+ * Device registry
+ * Each display has a token, given as /d/<token> or ?device=<token>. Its profile is stored as
+ * JSON in the DEVICES KV namespace under "device:<token>" and takes the place of the
+ * deployment's own calendar, location and display settings for that request.
+ */
+
+export interface DeviceProfile {
+  name?: string;
+  calendars?: unknown[];  // Same entries as CALENDAR_SOURCES
+  location?: { lat: number; lon: number; timezone?: string; label?: string };
+  units?: string;
+  locale?: string;
+  timeFormat?: string;
+  view?: string;
+  width?: number;
+  height?: number;
+  rotation?: number;
+  bitDepth?: number;
+  dither?: string;
+  format?: string;
+  chart?: boolean;
+  layout?: unknown;
+}
+
+const TOKEN_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+const PROFILE_CACHE_TTL = 60;  // seconds KV may serve a profile from its edge cache
+
+/** Device token from the path (/d/<token>, or beneath it) or the query (?device=<token>), if well-formed */
+export function getDeviceToken(url: URL): string | null {
+  const fromPath = url.pathname.match(/^\/d\/([^/]+)(?:\/|$)/)?.[1];
+  const token = fromPath ? decodeURIComponent(fromPath) : url.searchParams.get('device');
+  return token && TOKEN_PATTERN.test(token) ? token : null;
+}
+
+function isValidProfile(value: unknown): value is DeviceProfile {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const profile = value as { [key: string]: unknown };
+  if (profile.calendars !== undefined && !Array.isArray(profile.calendars)) return false;
+  if (profile.location !== undefined) {
+    const location = profile.location as { [key: string]: unknown } | null;
+    if (typeof location?.lat !== 'number' || typeof location?.lon !== 'number') return false;
+  }
+  return true;
+}
+
+/** Tokens of every registered device */
+export async function listDeviceTokens(devices: KVNamespace): Promise<string[]> {
+  const tokens: string[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await devices.list({ prefix: 'device:', cursor });
+    tokens.push(...page.keys.map((key) => key.name.slice('device:'.length)));
+    cursor = page.list_complete ? undefined : page.cursor;
+  } while (cursor);
+  return tokens;
+}
+
+/**
+ * Look up a device's profile. Returns null for tokens that aren't registered;
+ * throws if the stored profile isn't usable.
+ */
+export async function loadDeviceProfile(devices: KVNamespace, token: string): Promise<DeviceProfile | null> {
+  const stored = await devices.get(`device:${token}`, { type: 'json', cacheTtl: PROFILE_CACHE_TTL });
+  if (stored === null) return null;
+  if (!isValidProfile(stored)) {
+    throw new Error(`Invalid profile for device ${token.slice(0, 4)}...`);
+  }
+  return stored;
+}
@@ -0,0 +1,238 @@
+/**
+ * Bitmap font support
+ * Parses BDF fonts bundled with the worker and maps text to glyphs one grapheme at a time.
+ * Characters the font lacks fall back to their unaccented/compatibility form, then to a box.
+ */
+
+export interface Glyph {
+  advance: number;   // DWIDTH, pixels to the next origin
+  width: number;     // BBX width
+  height: number;    // BBX height
+  offsetX: number;   // BBX offset of the bottom-left pixel from the origin
+  offsetY: number;
+  bitmap: Uint8Array; // Rows top to bottom, ceil(width / 8) bytes each, MSB first
+}
+
+export interface BitmapFont {
+  glyphs: Map<number, Glyph>;
+  ascent: number;
+  descent: number;
+  capHeight: number;
+  fallback: Glyph;
+}
+
+// Combining marks, variation selectors and joiners: dropped when the exact character is missing
+const DROPPABLE = /[\p{M}\u200c\u200d\ufe00-\ufe0f]/gu;
+
+export function parseBDF(text: string): BitmapFont {
+  const glyphs = new Map<number, Glyph>();
+  const properties: { [name: string]: number } = {};
+  let boundingBox = [8, 12, 0, -2];
+
+  let encoding = -1;
+  let advance = 0;
+  let bbx = boundingBox;
+  let rows: string[] | null = null;
+  let inProperties = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const [keyword, ...args] = line.split(/\s+/);
+
+    if (rows) {
+      if (keyword === 'ENDCHAR') {
+        if (encoding >= 0) glyphs.set(encoding, buildGlyph(advance, bbx, rows));
+        rows = null;
+      } else if (line) {
+        rows.push(line);
+      }
+      continue;
+    }
+
+    if (inProperties) {
+      if (keyword === 'ENDPROPERTIES') {
+        inProperties = false;
+      } else if (args.length === 1 && /^-?\d+$/.test(args[0])) {
+        properties[keyword] = parseInt(args[0], 10);
+      }
+      continue;
+    }
+
+    switch (keyword) {
+      case 'FONTBOUNDINGBOX':
+        boundingBox = args.map((value) => parseInt(value, 10));
+        break;
+      case 'STARTPROPERTIES':
+        inProperties = true;
+        break;
+      case 'STARTCHAR':
+        encoding = -1;
+        advance = boundingBox[0];
+        bbx = boundingBox;
+        break;
+      case 'ENCODING':
+        encoding = parseInt(args[0], 10);
+        break;
+      case 'DWIDTH':
+        advance = parseInt(args[0], 10);
+        break;
+      case 'BBX':
+        bbx = args.map((value) => parseInt(value, 10));
+        break;
+      case 'BITMAP':
+        rows = [];
+        break;
+    }
+  }
+
+  if (glyphs.size === 0) {
+    throw new Error('BDF font contains no glyphs');
+  }
+
+  const ascent = properties.FONT_ASCENT ?? boundingBox[1] + boundingBox[3];
+  const descent = properties.FONT_DESCENT ?? -boundingBox[3];
+  const fallback = glyphs.get(properties.DEFAULT_CHAR ?? 0xfffd)
+    ?? glyphs.get(0x3f) // '?'
+    ?? buildGlyph(boundingBox[0], [0, 0, 0, 0], []);
+
+  return {
+    glyphs,
+    ascent,
+    descent,
+    capHeight: properties.CAP_HEIGHT ?? ascent,
+    fallback,
+  };
+}
+
+function buildGlyph(advance: number, bbx: number[], rows: string[]): Glyph {
+  const [width, height, offsetX, offsetY] = bbx;
+  const bytesPerRow = Math.ceil(width / 8);
+  const bitmap = new Uint8Array(bytesPerRow * height);
+  for (let row = 0; row < Math.min(height, rows.length); row++) {
+    for (let i = 0; i < bytesPerRow; i++) {
+      bitmap[row * bytesPerRow + i] = parseInt(rows[row].slice(i * 2, i * 2 + 2), 16) || 0;
+    }
+  }
+  return { advance, width, height, offsetX, offsetY, bitmap };
+}
+
+const segmenter = typeof Intl.Segmenter === 'function' ? new Intl.Segmenter(undefined, { granularity: 'grapheme' }) : null;
+
+function splitGraphemes(text: string): string[] {
+  if (segmenter) {
+    return Array.from(segmenter.segment(text), (segment) => segment.segment);
+  }
+  // Without Segmenter, attach combining marks and joined sequences to the preceding character
+  return text.match(/\P{M}(?:[\p{M}\ufe00-\ufe0f]|\u200d\P{M})*|\p{M}+/gu) ?? [];
+}
+
+function lookupGrapheme(font: BitmapFont, grapheme: string): Glyph[] {
+  // Precomposed character, e.g. "e" + U+0301 -> "é"
+  const composed = grapheme.normalize('NFC');
+  const codePoints = Array.from(composed, (char) => char.codePointAt(0)!);
+  if (codePoints.length === 1) {
+    const glyph = font.glyphs.get(codePoints[0]);
+    if (glyph) return [glyph];
+  }
+
+  // Emoji ZWJ sequences collapse to their first component; other clusters lose their marks
+  const base = grapheme.includes('\u200d') ? grapheme.split('\u200d')[0] : grapheme;
+
+  // Compatibility form with accents stripped, e.g. "ǅ" -> "Dž" -> "Dz", "ﬁ" -> "fi", "²" -> "2"
+  const simplified = base.normalize('NFKD').replace(DROPPABLE, '');
+  if (simplified) {
+    const glyphs: Glyph[] = [];
+    for (const char of simplified) {
+      const glyph = font.glyphs.get(char.codePointAt(0)!);
+      if (!glyph) return [font.fallback];
+      glyphs.push(glyph);
+    }
+    return glyphs;
+  }
+
+  // Lone marks or joiners with nothing to attach to take no space
+  return [];
+}
+
+/** Glyphs that render the given text, in order */
+export function getGlyphs(font: BitmapFont, text: string): Glyph[] {
+  const glyphs: Glyph[] = [];
+  for (const grapheme of splitGraphemes(text)) {
+    glyphs.push(...lookupGrapheme(font, grapheme));
+  }
+  return glyphs;
+}
+
+export function measureText(font: BitmapFont, text: string): number {
+  let width = 0;
+  for (const glyph of getGlyphs(font, text)) width += glyph.advance;
+  return width;
+}
+
+// Longest leading run of whole graphemes that fits in maxWidth (always at least one)
+function fitGraphemes(font: BitmapFont, text: string, maxWidth: number): string {
+  let fitted = '';
+  let width = 0;
+  for (const grapheme of splitGraphemes(text)) {
+    const advance = measureText(font, grapheme);
+    if (fitted && width + advance > maxWidth) break;
+    fitted += grapheme;
+    width += advance;
+  }
+  return fitted;
+}
+
+/** Cut text to maxWidth, ending in "..." when anything had to go */
+export function truncateText(font: BitmapFont, text: string, maxWidth: number, ellipsis: string = '...'): string {
+  if (measureText(font, text) <= maxWidth) return text;
+  const available = maxWidth - measureText(font, ellipsis);
+  const graphemes = splitGraphemes(text);
+  let kept = '';
+  let width = 0;
+  for (const grapheme of graphemes) {
+    const advance = measureText(font, grapheme);
+    if (width + advance > available) break;
+    kept += grapheme;
+    width += advance;
+  }
+  return kept.trimEnd() + ellipsis;
+}
+
+/**
+ * Break text into at most maxLines lines no wider than maxWidth.
+ * Lines break between words; a word too long for a line of its own is split with a hyphen.
+ * Whatever doesn't fit on the last line is cut off with an ellipsis.
+ */
+export function wrapText(font: BitmapFont, text: string, maxWidth: number, maxLines: number): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const hyphenWidth = measureText(font, '-');
+  const lines: string[] = [];
+  let line = '';
+
+  for (let i = 0; i < words.length; i++) {
+    const candidate = line ? `${line} ${words[i]}` : words[i];
+    if (measureText(font, candidate) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+
+    if (lines.length >= maxLines - 1) {
+      lines.push(truncateText(font, [candidate, ...words.slice(i + 1)].join(' '), maxWidth));
+      return lines;
+    }
+
+    if (line) {
+      // Start the word again on a fresh line
+      lines.push(line);
+      line = '';
+    } else {
+      const head = fitGraphemes(font, words[i], maxWidth - hyphenWidth);
+      lines.push(`${head}-`);
+      words[i] = words[i].slice(head.length);
+    }
+    i--;
+  }
+
+  if (line) lines.push(line);
+  return lines;
+}
@@ -0,0 +1,223 @@
+/**
+ * Localization: display strings, weather condition names and date/time formatting
+ */
+
+export interface LocaleSettings {
+  locale: string;   // BCP 47 tag, e.g. "en-US", "de-DE"
+  hour12: boolean;
+  strings: Strings;
+}
+
+export interface Strings {
+  today: string;
+  tomorrow: string;
+  noEvents: string;
+  more: (count: number) => string;
+  daySpan: (day: number, days: number) => string;  // Suffix on multi-day events
+  generated: string;
+  allDay: string;
+  calendarUnavailable: string;
+  calendarStaleSince: string;
+  // Condition names by WMO code; falls back to the provider's own text when missing
+  conditions?: { [code: number]: string };
+}
+
+const EN: Strings = {
+  today: 'TODAY',
+  tomorrow: 'TOMORROW',
+  noEvents: 'No events',
+  more: (count) => `+${count} more...`,
+  daySpan: (day, days) => `(day ${day}/${days})`,
+  generated: 'Generated',
+  allDay: 'All Day',
+  calendarUnavailable: 'CALENDAR UNAVAILABLE',
+  calendarStaleSince: 'CALENDAR STALE SINCE',
+};
+
+const DE: Strings = {
+  today: 'HEUTE',
+  tomorrow: 'MORGEN',
+  noEvents: 'Keine Termine',
+  more: (count) => `+${count} weitere...`,
+  daySpan: (day, days) => `(Tag ${day}/${days})`,
+  generated: 'Erstellt',
+  allDay: 'Ganzt.',
+  calendarUnavailable: 'KALENDER NICHT VERFÜGBAR',
+  calendarStaleSince: 'KALENDER VERALTET SEIT',
+  conditions: {
+    0: 'Klar', 1: 'Meist klar', 2: 'Teils bewölkt', 3: 'Bedeckt',
+    45: 'Nebel', 48: 'Reifnebel',
+    51: 'Leichter Niesel', 53: 'Niesel', 55: 'Starker Niesel',
+    61: 'Leichter Regen', 63: 'Regen', 65: 'Starker Regen',
+    66: 'Gefr. Regen', 67: 'Starker gefr. Regen',
+    71: 'Leichter Schnee', 73: 'Schnee', 75: 'Starker Schnee', 77: 'Schneegriesel',
+    80: 'Leichte Schauer', 81: 'Schauer', 82: 'Starke Schauer',
+    85: 'Leichte Schneeschauer', 86: 'Schneeschauer',
+    95: 'Gewitter', 96: 'Gewitter + Hagel', 99: 'Schweres Gewitter',
+  },
+};
+
+const FR: Strings = {
+  today: "AUJOURD'HUI",
+  tomorrow: 'DEMAIN',
+  noEvents: 'Aucun événement',
+  more: (count) => `+${count} autres...`,
+  daySpan: (day, days) => `(jour ${day}/${days})`,
+  generated: 'Généré',
+  allDay: 'Journée',
+  calendarUnavailable: 'CALENDRIER INDISPONIBLE',
+  calendarStaleSince: 'CALENDRIER PÉRIMÉ DEPUIS',
+  conditions: {
+    0: 'Dégagé', 1: 'Peu nuageux', 2: 'Partiel. nuageux', 3: 'Couvert',
+    45: 'Brouillard', 48: 'Brouillard givrant',
+    51: 'Bruine légère', 53: 'Bruine', 55: 'Forte bruine',
+    61: 'Pluie légère', 63: 'Pluie', 65: 'Forte pluie',
+    66: 'Pluie vergl.', 67: 'Forte pluie vergl.',
+    71: 'Neige légère', 73: 'Neige', 75: 'Forte neige', 77: 'Neige en grains',
+    80: 'Averses légères', 81: 'Averses', 82: 'Fortes averses',
+    85: 'Averses de neige', 86: 'Averses de neige',
+    95: 'Orage', 96: 'Orage + grêle', 99: 'Orage violent',
+  },
+};
+
+const ES: Strings = {
+  today: 'HOY',
+  tomorrow: 'MAÑANA',
+  noEvents: 'Sin eventos',
+  more: (count) => `+${count} más...`,
+  daySpan: (day, days) => `(día ${day}/${days})`,
+  generated: 'Generado',
+  allDay: 'Todo día',
+  calendarUnavailable: 'CALENDARIO NO DISPONIBLE',
+  calendarStaleSince: 'CALENDARIO DESACT. DESDE',
+  conditions: {
+    0: 'Despejado', 1: 'Casi despejado', 2: 'Parc. nublado', 3: 'Cubierto',
+    45: 'Niebla', 48: 'Niebla helada',
+    51: 'Llovizna ligera', 53: 'Llovizna', 55: 'Llovizna fuerte',
+    61: 'Lluvia ligera', 63: 'Lluvia', 65: 'Lluvia fuerte',
+    66: 'Lluvia helada', 67: 'Lluvia helada fuerte',
+    71: 'Nieve ligera', 73: 'Nieve', 75: 'Nieve fuerte', 77: 'Granizo fino',
+    80: 'Chubascos ligeros', 81: 'Chubascos', 82: 'Chubascos fuertes',
+    85: 'Chubascos de nieve', 86: 'Chubascos de nieve',
+    95: 'Tormenta', 96: 'Tormenta + granizo', 99: 'Tormenta severa',
+  },
+};
+
+const FI: Strings = {
+  today: 'TÄNÄÄN',
+  tomorrow: 'HUOMENNA',
+  noEvents: 'Ei tapahtumia',
+  more: (count) => `+${count} lisää...`,
+  daySpan: (day, days) => `(päivä ${day}/${days})`,
+  generated: 'Päivitetty',
+  allDay: 'Koko pv',
+  calendarUnavailable: 'KALENTERI EI SAATAVILLA',
+  calendarStaleSince: 'KALENTERI VANHENTUNUT',
+  conditions: {
+    0: 'Selkeää', 1: 'Enimm. selkeää', 2: 'Puolipilvistä', 3: 'Pilvistä',
+    45: 'Sumua', 48: 'Kuurasumua',
+    51: 'Heikkoa tihkua', 53: 'Tihkusadetta', 55: 'Voimakasta tihkua',
+    61: 'Heikkoa sadetta', 63: 'Sadetta', 65: 'Rankkasadetta',
+    66: 'Jäätävää sadetta', 67: 'Voim. jäätävää sad.',
+    71: 'Heikkoa lunta', 73: 'Lumisadetta', 75: 'Runsasta lunta', 77: 'Lumijyväsiä',
+    80: 'Heikkoja kuuroja', 81: 'Sadekuuroja', 82: 'Voim. kuuroja',
+    85: 'Lumikuuroja', 86: 'Lumikuuroja',
+    95: 'Ukkosta', 96: 'Ukkosta + rakeita', 99: 'Voim. ukkosta',
+  },
+};
+
+const STRINGS: { [language: string]: Strings } = { en: EN, de: DE, fr: FR, es: ES, fi: FI };
+
+export const DEFAULT_LOCALE = 'en-US';
+
+function normalizeLocale(locale: string | null | undefined): string | null {
+  if (!locale) return null;
+  try {
+    return Intl.getCanonicalLocales(locale)[0] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build locale settings. Without an explicit time format, a configured locale uses its
+ * usual clock; the default (no locale configured) keeps the 24-hour display.
+ */
+export function resolveLocaleSettings(locale: string | null | undefined, timeFormat: string | null | undefined): LocaleSettings {
+  const configured = normalizeLocale(locale);
+  const resolved = configured ?? DEFAULT_LOCALE;
+
+  let hour12 = false;
+  if (timeFormat === '12h' || timeFormat === '12') {
+    hour12 = true;
+  } else if (timeFormat !== '24h' && timeFormat !== '24' && configured) {
+    hour12 = new Intl.DateTimeFormat(resolved, { hour: 'numeric' }).resolvedOptions().hour12 ?? false;
+  }
+
+  const language = resolved.split('-')[0].toLowerCase();
+  return { locale: resolved, hour12, strings: STRINGS[language] ?? EN };
+}
+
+export function formatTime(date: Date, timezone: string, settings: LocaleSettings): string {
+  return date.toLocaleTimeString(settings.locale, {
+    hour: settings.hour12 ? 'numeric' : '2-digit',
+    minute: '2-digit',
+    hourCycle: settings.hour12 ? 'h12' : 'h23',
+    timeZone: timezone,
+  });
+}
+
+// Compact duration in the locale's unit abbreviations, e.g. "1h 30m" or "1 Std. 30 Min."
+export function formatDuration(minutes: number, settings: LocaleSettings): string {
+  const hours = Math.floor(minutes / 60);
+  const parts: string[] = [];
+  if (hours > 0) {
+    parts.push(new Intl.NumberFormat(settings.locale, { style: 'unit', unit: 'hour', unitDisplay: 'narrow' }).format(hours));
+  }
+  if (minutes % 60 > 0 || hours === 0) {
+    parts.push(new Intl.NumberFormat(settings.locale, { style: 'unit', unit: 'minute', unitDisplay: 'narrow' }).format(minutes % 60));
+  }
+  return parts.join(' ');
+}
+
+export function formatWeekday(date: Date, timezone: string, settings: LocaleSettings, style: 'long' | 'short' = 'long'): string {
+  return date.toLocaleDateString(settings.locale, { weekday: style, timeZone: timezone }).replace(/\.$/, '').toUpperCase();
+}
+
+// Month title for the month view, e.g. "OCTOBER 2026" or "OKTOBER 2026"
+export function formatMonthYear(date: Date, timezone: string, settings: LocaleSettings): string {
+  return date.toLocaleDateString(settings.locale, { month: 'long', year: 'numeric', timeZone: timezone }).toUpperCase();
+}
+
+// Regions whose calendars start the week on Sunday, for runtimes without Intl.Locale week info
+const SUNDAY_FIRST_REGIONS = new Set(['US', 'CA', 'MX', 'BR', 'JP', 'KR', 'TW', 'HK', 'IL', 'PH', 'IN', 'ZA']);
+
+// First column of the month grid: 0 = Sunday, 1 = Monday, ...
+export function getFirstDayOfWeek(settings: LocaleSettings): number {
+  try {
+    const locale = new Intl.Locale(settings.locale) as Intl.Locale & {
+      getWeekInfo?: () => { firstDay: number };
+      weekInfo?: { firstDay: number };
+    };
+    const weekInfo = locale.getWeekInfo?.() ?? locale.weekInfo;
+    if (weekInfo) return weekInfo.firstDay % 7;  // Intl numbers days 1 (Monday) to 7 (Sunday)
+    const region = locale.maximize().region;
+    return region && SUNDAY_FIRST_REGIONS.has(region) ? 0 : 1;
+  } catch {
+    return 1;
+  }
+}
+
+// Header date in the locale's own order, e.g. "MONDAY, OCT 19" or "MONTAG, 19. OKT."
+export function formatHeaderDate(date: Date, timezone: string, settings: LocaleSettings): string {
+  return date.toLocaleDateString(settings.locale, {
+    weekday: 'long',
+    month: 'short',
+    day: 'numeric',
+    timeZone: timezone,
+  }).toUpperCase();
+}
+
+export function getConditionText(code: number, providerText: string, settings: LocaleSettings): string {
+  return settings.strings.conditions?.[code] ?? providerText;
+}
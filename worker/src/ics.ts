@@ -0,0 +1,688 @@
+/**
+ * iCalendar (RFC 5545) parser
+ * Turns an ICS feed into concrete event instances within a time range:
+ * TZID/VTIMEZONE resolution, all-day DATE values, RRULE/RDATE/EXDATE expansion,
+ * RECURRENCE-ID overrides and cancelled instances.
+ */
+
+import { WallTime, isValidTimezone, wallTimeToMs, zonedTimeToUtc } from './time';
+
+// Concrete event instance from an ICS feed
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  start: Date;     // All-day events: UTC midnight of the date
+  end: Date;
+  isAllDay: boolean;
+  location?: string;
+}
+
+interface IcsProperty {
+  name: string;
+  params: { [key: string]: string };
+  value: string;
+}
+
+interface IcsComponent {
+  name: string;
+  properties: IcsProperty[];
+  children: IcsComponent[];
+}
+
+// DATE or DATE-TIME value before zone resolution
+interface IcsDateValue {
+  wall: WallTime;
+  isDate: boolean;
+  isUtc: boolean;
+  tzid?: string;
+}
+
+interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+  interval: number;
+  count?: number;
+  until?: IcsDateValue;
+  byDay: Array<{ weekday: number; ordinal: number }>;  // ordinal 0 = every
+  byMonthDay: number[];
+  byMonth: number[];
+  bySetPos: number[];
+  weekStart: number;
+}
+
+// STANDARD/DAYLIGHT block of a VTIMEZONE
+interface TimezoneObservance {
+  start: IcsDateValue;
+  offsetFrom: number;  // minutes
+  offsetTo: number;
+  rule?: RecurrenceRule;
+  rdates: IcsDateValue[];
+}
+
+// Maps a wall time in some zone to an instant
+type ZoneResolver = (wall: WallTime) => Date;
+
+const WEEKDAYS: { [key: string]: number } = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 };
+const MAX_RECURRENCE_PERIODS = 10000;  // Periods examined past the start of the range
+const DAY_MS = 86400000;
+
+// ============================================================================
+// Lexing
+// ============================================================================
+
+function unfoldLines(text: string): string[] {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .filter((line) => line.length > 0);
+}
+
+function parseProperty(line: string): IcsProperty | null {
+  // Find the first ':' outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (ch === ':' && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const head = line.slice(0, colon);
+  const value = line.slice(colon + 1);
+  const segments = head.match(/(?:[^;"]|"[^"]*")+/g) || [];
+  const name = (segments.shift() || '').toUpperCase();
+  const params: { [key: string]: string } = {};
+  for (const segment of segments) {
+    const eq = segment.indexOf('=');
+    if (eq < 0) continue;
+    params[segment.slice(0, eq).toUpperCase()] = segment.slice(eq + 1).replace(/^"|"$/g, '');
+  }
+  return { name, params, value };
+}
+
+function parseComponents(text: string): IcsComponent {
+  const root: IcsComponent = { name: 'ROOT', properties: [], children: [] };
+  const stack: IcsComponent[] = [root];
+
+  for (const line of unfoldLines(text)) {
+    const prop = parseProperty(line);
+    if (!prop) continue;
+    const current = stack[stack.length - 1];
+
+    if (prop.name === 'BEGIN') {
+      const component: IcsComponent = { name: prop.value.trim().toUpperCase(), properties: [], children: [] };
+      current.children.push(component);
+      stack.push(component);
+    } else if (prop.name === 'END') {
+      if (stack.length > 1) stack.pop();
+    } else {
+      current.properties.push(prop);
+    }
+  }
+
+  return root;
+}
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch === 'n' || ch === 'N' ? '\n' : ch));
+}
+
+function getProperty(component: IcsComponent, name: string): IcsProperty | undefined {
+  return component.properties.find((p) => p.name === name);
+}
+
+function getProperties(component: IcsComponent, name: string): IcsProperty[] {
+  return component.properties.filter((p) => p.name === name);
+}
+
+// ============================================================================
+// Values
+// ============================================================================
+
+function parseDateString(raw: string, params: { [key: string]: string }): IcsDateValue | null {
+  const match = raw.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const isDate = params.VALUE === 'DATE' || match[4] === undefined;
+  return {
+    wall: {
+      year: parseInt(match[1], 10),
+      month: parseInt(match[2], 10),
+      day: parseInt(match[3], 10),
+      hour: isDate ? 0 : parseInt(match[4], 10),
+      minute: isDate ? 0 : parseInt(match[5], 10),
+      second: isDate || !match[6] ? 0 : parseInt(match[6], 10),
+    },
+    isDate,
+    isUtc: match[7] === 'Z',
+    tzid: params.TZID,
+  };
+}
+
+function parseDateProperty(prop: IcsProperty | undefined): IcsDateValue | null {
+  if (!prop) return null;
+  return parseDateString(prop.value, prop.params);
+}
+
+// Multi-valued EXDATE/RDATE properties
+function parseDateList(props: IcsProperty[]): IcsDateValue[] {
+  const values: IcsDateValue[] = [];
+  for (const prop of props) {
+    if (prop.params.VALUE === 'PERIOD') continue;
+    for (const raw of prop.value.split(',')) {
+      const parsed = parseDateString(raw, prop.params);
+      if (parsed) values.push(parsed);
+    }
+  }
+  return values;
+}
+
+// RFC 5545 DURATION, e.g. "PT1H30M" or "-P1D". Returns milliseconds.
+function parseDuration(raw: string): number | null {
+  const match = raw.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((parseInt(weeks || '0', 10) * 7 + parseInt(days || '0', 10)) * 86400
+    + parseInt(hours || '0', 10) * 3600
+    + parseInt(minutes || '0', 10) * 60
+    + parseInt(seconds || '0', 10)) * 1000;
+  return sign === '-' ? -ms : ms;
+}
+
+// UTC offset like "-0500" or "+053000", in minutes
+function parseUtcOffset(raw: string): number {
+  const match = raw.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+  if (!match) return 0;
+  const minutes = parseInt(match[2], 10) * 60 + parseInt(match[3], 10);
+  return match[1] === '-' ? -minutes : minutes;
+}
+
+function parseRecurrenceRule(raw: string): RecurrenceRule | null {
+  const parts: { [key: string]: string } = {};
+  for (const pair of raw.split(';')) {
+    const eq = pair.indexOf('=');
+    if (eq > 0) parts[pair.slice(0, eq).toUpperCase()] = pair.slice(eq + 1).toUpperCase();
+  }
+
+  const freq = parts.FREQ;
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY' && freq !== 'YEARLY') return null;
+
+  const toInts = (value?: string) => (value ? value.split(',').map((v) => parseInt(v, 10)).filter((n) => !isNaN(n)) : []);
+
+  const byDay: RecurrenceRule['byDay'] = [];
+  for (const token of (parts.BYDAY || '').split(',')) {
+    const match = token.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (match) byDay.push({ weekday: WEEKDAYS[match[2]], ordinal: match[1] ? parseInt(match[1], 10) : 0 });
+  }
+
+  return {
+    freq,
+    interval: Math.max(1, parseInt(parts.INTERVAL || '1', 10) || 1),
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) : undefined,
+    until: parts.UNTIL ? parseDateString(parts.UNTIL, {}) ?? undefined : undefined,
+    byDay,
+    byMonthDay: toInts(parts.BYMONTHDAY),
+    byMonth: toInts(parts.BYMONTH),
+    bySetPos: toInts(parts.BYSETPOS),
+    weekStart: WEEKDAYS[parts.WKST || 'MO'] ?? 1,
+  };
+}
+
+// ============================================================================
+// Recurrence expansion (in wall time)
+// ============================================================================
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function weekdayOf(year: number, month: number, day: number): number {
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+// Days in [year/month] matching BYDAY, honouring ordinals like 2SU or -1FR
+function daysMatchingByDay(year: number, months: number[], byDay: RecurrenceRule['byDay']): Array<[number, number]> {
+  const all: Array<[number, number]> = [];
+  for (const month of months) {
+    for (let day = 1; day <= daysInMonth(year, month); day++) all.push([month, day]);
+  }
+
+  const result: Array<[number, number]> = [];
+  for (const { weekday, ordinal } of byDay) {
+    const matches = all.filter(([m, d]) => weekdayOf(year, m, d) === weekday);
+    if (ordinal === 0) {
+      result.push(...matches);
+    } else {
+      const pick = ordinal > 0 ? matches[ordinal - 1] : matches[matches.length + ordinal];
+      if (pick) result.push(pick);
+    }
+  }
+  return result;
+}
+
+function resolveMonthDays(year: number, month: number, byMonthDay: number[]): number[] {
+  const total = daysInMonth(year, month);
+  return byMonthDay
+    .map((d) => (d < 0 ? total + d + 1 : d))
+    .filter((d) => d >= 1 && d <= total);
+}
+
+// Midnight (wall-time ms) of the WKST day starting DTSTART's week
+function getFirstWeekStartMs(rule: RecurrenceRule, dtstart: WallTime): number {
+  const startMs = Date.UTC(dtstart.year, dtstart.month - 1, dtstart.day);
+  return startMs - ((new Date(startMs).getUTCDay() - rule.weekStart + 7) % 7) * DAY_MS;
+}
+
+// Index of the rule's period containing a wall time, counting DTSTART's period as 0
+function getPeriodIndex(rule: RecurrenceRule, dtstart: WallTime, ms: number): number {
+  const date = new Date(ms);
+  switch (rule.freq) {
+    case 'YEARLY':
+      return Math.floor((date.getUTCFullYear() - dtstart.year) / rule.interval);
+    case 'MONTHLY':
+      return Math.floor(((date.getUTCFullYear() - dtstart.year) * 12 + date.getUTCMonth() + 1 - dtstart.month) / rule.interval);
+    case 'WEEKLY':
+      return Math.floor((ms - getFirstWeekStartMs(rule, dtstart)) / (rule.interval * 7 * DAY_MS));
+    default:
+      return Math.floor((ms - Date.UTC(dtstart.year, dtstart.month - 1, dtstart.day)) / (rule.interval * DAY_MS));
+  }
+}
+
+// Candidate dates for one period of the rule, before BYSETPOS
+function periodCandidates(rule: RecurrenceRule, dtstart: WallTime, periodIndex: number): Array<[number, number, number]> {
+  const dates: Array<[number, number, number]> = [];
+
+  if (rule.freq === 'YEARLY') {
+    const year = dtstart.year + periodIndex * rule.interval;
+    const months = rule.byMonth.length > 0 ? rule.byMonth : [dtstart.month];
+    if (rule.byMonthDay.length > 0) {
+      for (const month of months) {
+        for (const day of resolveMonthDays(year, month, rule.byMonthDay)) dates.push([year, month, day]);
+      }
+    } else if (rule.byDay.length > 0) {
+      // Without BYMONTH, ordinals count across the whole year
+      if (rule.byMonth.length > 0) {
+        for (const month of months) {
+          for (const [m, d] of daysMatchingByDay(year, [month], rule.byDay)) dates.push([year, m, d]);
+        }
+      } else {
+        const allMonths = Array.from({ length: 12 }, (_, i) => i + 1);
+        for (const [m, d] of daysMatchingByDay(year, allMonths, rule.byDay)) dates.push([year, m, d]);
+      }
+    } else {
+      for (const month of months) {
+        if (dtstart.day <= daysInMonth(year, month)) dates.push([year, month, dtstart.day]);
+      }
+    }
+  } else if (rule.freq === 'MONTHLY') {
+    const monthIndex = dtstart.month - 1 + periodIndex * rule.interval;
+    const year = dtstart.year + Math.floor(monthIndex / 12);
+    const month = (monthIndex % 12) + 1;
+    if (rule.byMonth.length > 0 && !rule.byMonth.includes(month)) return dates;
+
+    if (rule.byMonthDay.length > 0) {
+      let days = resolveMonthDays(year, month, rule.byMonthDay);
+      if (rule.byDay.length > 0) {
+        days = days.filter((d) => rule.byDay.some((b) => b.weekday === weekdayOf(year, month, d)));
+      }
+      for (const day of days) dates.push([year, month, day]);
+    } else if (rule.byDay.length > 0) {
+      for (const [m, d] of daysMatchingByDay(year, [month], rule.byDay)) dates.push([year, m, d]);
+    } else if (dtstart.day <= daysInMonth(year, month)) {
+      dates.push([year, month, dtstart.day]);
+    }
+  } else if (rule.freq === 'WEEKLY') {
+    const startMs = Date.UTC(dtstart.year, dtstart.month - 1, dtstart.day);
+    const weekStartMs = getFirstWeekStartMs(rule, dtstart) + periodIndex * rule.interval * 7 * DAY_MS;
+    const weekdays = rule.byDay.length > 0
+      ? rule.byDay.map((b) => b.weekday)
+      : [new Date(startMs).getUTCDay()];
+    for (let i = 0; i < 7; i++) {
+      const d = new Date(weekStartMs + i * DAY_MS);
+      if (!weekdays.includes(d.getUTCDay())) continue;
+      if (rule.byMonth.length > 0 && !rule.byMonth.includes(d.getUTCMonth() + 1)) continue;
+      dates.push([d.getUTCFullYear(), d.getUTCMonth() + 1, d.getUTCDate()]);
+    }
+  } else {
+    const d = new Date(Date.UTC(dtstart.year, dtstart.month - 1, dtstart.day) + periodIndex * rule.interval * DAY_MS);
+    const year = d.getUTCFullYear();
+    const month = d.getUTCMonth() + 1;
+    const day = d.getUTCDate();
+    if (rule.byMonth.length > 0 && !rule.byMonth.includes(month)) return dates;
+    if (rule.byMonthDay.length > 0 && !resolveMonthDays(year, month, rule.byMonthDay).includes(day)) return dates;
+    if (rule.byDay.length > 0 && !rule.byDay.some((b) => b.weekday === d.getUTCDay())) return dates;
+    dates.push([year, month, day]);
+  }
+
+  dates.sort((a, b) => Date.UTC(a[0], a[1] - 1, a[2]) - Date.UTC(b[0], b[1] - 1, b[2]));
+
+  if (rule.bySetPos.length > 0) {
+    const picked: Array<[number, number, number]> = [];
+    for (const pos of rule.bySetPos) {
+      const pick = pos > 0 ? dates[pos - 1] : dates[dates.length + pos];
+      if (pick) picked.push(pick);
+    }
+    return picked;
+  }
+  return dates;
+}
+
+// Expand a rule into wall-time occurrences, starting with DTSTART itself.
+// Without COUNT, periods ending before `fromMs` (wall-time ms) are skipped, so the first
+// occurrences may be later ones. Stops once occurrences pass `limitMs` or the rule ends.
+function expandRule(
+  rule: RecurrenceRule,
+  dtstart: WallTime,
+  fromMs: number,
+  limitMs: number,
+  isPastUntil: (wall: WallTime) => boolean
+): WallTime[] {
+  const occurrences: WallTime[] = [];
+  const startMs = wallTimeToMs(dtstart);
+  let emitted = 0;
+
+  // COUNT has to be counted from DTSTART; otherwise start a period early to be safe
+  const fromPeriod = Math.max(0, getPeriodIndex(rule, dtstart, fromMs));
+  const firstPeriod = rule.count === undefined ? Math.max(0, fromPeriod - 1) : 0;
+
+  for (let period = firstPeriod; period < fromPeriod + MAX_RECURRENCE_PERIODS; period++) {
+    const candidates = periodCandidates(rule, dtstart, period);
+    let periodStartMs = Infinity;
+
+    for (const [year, month, day] of candidates) {
+      const wall: WallTime = { year, month, day, hour: dtstart.hour, minute: dtstart.minute, second: dtstart.second };
+      const ms = wallTimeToMs(wall);
+      periodStartMs = Math.min(periodStartMs, ms);
+      if (ms < startMs) continue;
+      if (isPastUntil(wall)) return occurrences;
+      if (rule.count !== undefined && emitted >= rule.count) return occurrences;
+      if (ms > limitMs) return occurrences;
+      occurrences.push(wall);
+      emitted++;
+    }
+
+    // Empty periods (e.g. Feb 30) have no start; keep going
+    if (periodStartMs !== Infinity && periodStartMs > limitMs) break;
+  }
+
+  return occurrences;
+}
+
+// ============================================================================
+// Timezones
+// ============================================================================
+
+// Map an ICS TZID to an IANA zone, accepting prefixed forms like "/mozilla.org/.../America/New_York"
+function normalizeTzid(tzid: string): string | null {
+  if (isValidTimezone(tzid)) return tzid;
+  const match = tzid.match(/([A-Za-z_]+\/[A-Za-z_+-]+(?:\/[A-Za-z_+-]+)?)$/);
+  if (match && isValidTimezone(match[1])) return match[1];
+  return null;
+}
+
+// Switch to an observance's offset, as a UTC instant
+interface TimezoneOnset {
+  utc: number;
+  offset: number;
+}
+
+function buildVTimezoneResolver(component: IcsComponent): ZoneResolver | null {
+  const observances: TimezoneObservance[] = [];
+  for (const child of component.children) {
+    if (child.name !== 'STANDARD' && child.name !== 'DAYLIGHT') continue;
+    const start = parseDateProperty(getProperty(child, 'DTSTART'));
+    const offsetTo = getProperty(child, 'TZOFFSETTO');
+    if (!start || !offsetTo) continue;
+    const offsetFrom = getProperty(child, 'TZOFFSETFROM');
+    const rrule = getProperty(child, 'RRULE');
+    observances.push({
+      start,
+      offsetFrom: parseUtcOffset(offsetFrom ? offsetFrom.value : offsetTo.value),
+      offsetTo: parseUtcOffset(offsetTo.value),
+      rule: rrule ? parseRecurrenceRule(rrule.value) ?? undefined : undefined,
+      rdates: parseDateList(getProperties(child, 'RDATE')),
+    });
+  }
+  if (observances.length === 0) return null;
+
+  // Earliest observance's "from" offset applies before any listed onset
+  const earliest = observances.reduce((a, b) => (wallTimeToMs(a.start.wall) <= wallTimeToMs(b.start.wall) ? a : b));
+
+  // Onsets by the year they fall in, worked out once per year; Outlook's observances start in 1601
+  const onsetsByYear = new Map<number, TimezoneOnset[]>();
+  const getOnsets = (year: number): TimezoneOnset[] => {
+    const cached = onsetsByYear.get(year);
+    if (cached) return cached;
+
+    const onsets: TimezoneOnset[] = [];
+    for (const obs of observances) {
+      const walls: WallTime[] = [obs.start.wall, ...obs.rdates.map((r) => r.wall)];
+      if (obs.rule) {
+        const until = obs.rule.until;
+        const untilUtc = until
+          ? wallTimeToMs(until.wall) - (until.isUtc ? 0 : obs.offsetFrom * 60000)
+          : Infinity;
+        walls.push(...expandRule(obs.rule, obs.start.wall, Date.UTC(year, 0, 1), Date.UTC(year + 1, 0, 1),
+          (w) => wallTimeToMs(w) - obs.offsetFrom * 60000 > untilUtc));
+      }
+      // Onsets are in the wall time of the preceding offset
+      for (const wall of walls) {
+        if (wall.year === year) onsets.push({ utc: wallTimeToMs(wall) - obs.offsetFrom * 60000, offset: obs.offsetTo });
+      }
+    }
+    onsetsByYear.set(year, onsets);
+    return onsets;
+  };
+
+  // Latest onset in or before each year, filled in forward from the last year already known
+  const firstYear = earliest.start.wall.year;
+  const latestOnsetByYear = new Map<number, TimezoneOnset | null>();
+  const getLatestOnsetThrough = (year: number): TimezoneOnset | null => {
+    let known = year;
+    while (known >= firstYear && !latestOnsetByYear.has(known)) known--;
+    let latest = known >= firstYear ? latestOnsetByYear.get(known)! : null;
+    for (let next = Math.max(known + 1, firstYear); next <= year; next++) {
+      for (const onset of getOnsets(next)) {
+        if (!latest || onset.utc > latest.utc) latest = onset;
+      }
+      latestOnsetByYear.set(next, latest);
+    }
+    return latest;
+  };
+
+  return (wall: WallTime) => {
+    const targetMs = wallTimeToMs(wall);
+
+    // Latest onset at or before the target: this year's if one has passed, else the last before it
+    let best: TimezoneOnset | null = null;
+    for (const onset of getOnsets(wall.year)) {
+      if (onset.utc <= targetMs - onset.offset * 60000 && (!best || onset.utc > best.utc)) best = onset;
+    }
+    best ??= getLatestOnsetThrough(wall.year - 1);
+
+    return new Date(targetMs - (best ? best.offset : earliest.offsetFrom) * 60000);
+  };
+}
+
+// ============================================================================
+// Events
+// ============================================================================
+
+interface ParsedEvent {
+  component: IcsComponent;
+  uid: string;
+  start: IcsDateValue;
+  durationMs: number;
+  cancelled: boolean;
+  recurrenceId: IcsDateValue | null;
+}
+
+/**
+ * Parse an ICS feed and return event instances overlapping [rangeStart, rangeEnd).
+ * Floating times and unknown TZIDs are interpreted in `defaultTimezone`.
+ */
+export function parseIcsEvents(text: string, rangeStart: Date, rangeEnd: Date, defaultTimezone: string): IcsEvent[] {
+  const root = parseComponents(text);
+  const calendar = root.children.find((c) => c.name === 'VCALENDAR') || root;
+
+  const calendarTz = getProperty(calendar, 'X-WR-TIMEZONE');
+  const fallbackZone = (calendarTz && normalizeTzid(calendarTz.value)) || defaultTimezone;
+
+  // Custom VTIMEZONE definitions, used when the TZID isn't an IANA name (e.g. Outlook's "Eastern Standard Time")
+  const vtimezones = new Map<string, ZoneResolver>();
+  for (const child of calendar.children) {
+    if (child.name !== 'VTIMEZONE') continue;
+    const tzid = getProperty(child, 'TZID');
+    const resolver = tzid ? buildVTimezoneResolver(child) : null;
+    if (tzid && resolver) vtimezones.set(tzid.value, resolver);
+  }
+
+  const toInstant = (value: IcsDateValue): Date => {
+    if (value.isDate) return new Date(wallTimeToMs(value.wall));
+    if (value.isUtc) return new Date(wallTimeToMs(value.wall));
+    if (value.tzid) {
+      const iana = normalizeTzid(value.tzid);
+      if (iana) return zonedTimeToUtc(value.wall, iana);
+      const custom = vtimezones.get(value.tzid);
+      if (custom) return custom(value.wall);
+    }
+    return zonedTimeToUtc(value.wall, fallbackZone);
+  };
+
+  // Collect VEVENTs, splitting masters from RECURRENCE-ID overrides
+  const masters: ParsedEvent[] = [];
+  const overrides = new Map<string, ParsedEvent[]>();
+  for (const child of calendar.children) {
+    if (child.name !== 'VEVENT') continue;
+    const start = parseDateProperty(getProperty(child, 'DTSTART'));
+    if (!start) continue;
+
+    const uidProp = getProperty(child, 'UID');
+    const uid = uidProp ? uidProp.value : `anon-${masters.length}-${wallTimeToMs(start.wall)}`;
+    const status = getProperty(child, 'STATUS');
+
+    let durationMs: number;
+    const end = parseDateProperty(getProperty(child, 'DTEND'));
+    const duration = getProperty(child, 'DURATION');
+    if (end) {
+      durationMs = start.isDate
+        ? wallTimeToMs(end.wall) - wallTimeToMs(start.wall)
+        : toInstant(end).getTime() - toInstant(start).getTime();
+    } else if (duration) {
+      durationMs = parseDuration(duration.value) ?? 0;
+    } else {
+      durationMs = start.isDate ? DAY_MS : 0;
+    }
+
+    const event: ParsedEvent = {
+      component: child,
+      uid,
+      start,
+      durationMs: Math.max(0, durationMs),
+      cancelled: status !== undefined && status.value.trim().toUpperCase() === 'CANCELLED',
+      recurrenceId: parseDateProperty(getProperty(child, 'RECURRENCE-ID')),
+    };
+
+    if (event.recurrenceId) {
+      const list = overrides.get(uid) || [];
+      list.push(event);
+      overrides.set(uid, list);
+    } else {
+      masters.push(event);
+    }
+  }
+
+  const instanceKey = (value: IcsDateValue) => (value.isDate
+    ? `D${value.wall.year}-${value.wall.month}-${value.wall.day}`
+    : `T${toInstant(value).getTime()}`);
+
+  const results: IcsEvent[] = [];
+  const pushInstance = (event: ParsedEvent, start: IcsDateValue) => {
+    const startDate = toInstant(start);
+    const endDate = start.isDate
+      ? new Date(wallTimeToMs(start.wall) + event.durationMs)
+      : new Date(startDate.getTime() + event.durationMs);
+
+    // Zero-length events still show up if they start inside the range
+    const overlaps = endDate.getTime() > rangeStart.getTime()
+      || (event.durationMs === 0 && startDate.getTime() >= rangeStart.getTime());
+    if (!overlaps || startDate.getTime() >= rangeEnd.getTime()) return;
+
+    const summary = getProperty(event.component, 'SUMMARY');
+    const location = getProperty(event.component, 'LOCATION');
+    results.push({
+      uid: event.uid,
+      summary: summary ? unescapeText(summary.value).trim() : '',
+      start: startDate,
+      end: endDate,
+      isAllDay: start.isDate,
+      location: location ? unescapeText(location.value).trim() || undefined : undefined,
+    });
+  };
+
+  for (const master of masters) {
+    if (master.cancelled) continue;
+
+    const rrule = getProperty(master.component, 'RRULE');
+    const rule = rrule ? parseRecurrenceRule(rrule.value) : null;
+    const eventOverrides = overrides.get(master.uid) || [];
+    overrides.delete(master.uid);
+
+    // Instances replaced or removed by RECURRENCE-ID/EXDATE
+    const skipped = new Set<string>();
+    for (const exdate of parseDateList(getProperties(master.component, 'EXDATE'))) {
+      skipped.add(instanceKey({ ...exdate, isDate: master.start.isDate || exdate.isDate, tzid: exdate.tzid ?? master.start.tzid }));
+    }
+    for (const override of eventOverrides) {
+      skipped.add(instanceKey({ ...override.recurrenceId!, tzid: override.recurrenceId!.tzid ?? master.start.tzid }));
+    }
+
+    const starts: IcsDateValue[] = [];
+    if (rule) {
+      // Expand in wall time; a week of slack covers offsets between wall time and UTC,
+      // and instances starting before the range may still run into it
+      const fromMs = rangeStart.getTime() - master.durationMs - 7 * DAY_MS;
+      const limitMs = rangeEnd.getTime() + 7 * DAY_MS;
+      const until = rule.until;
+      const untilMs = until && !until.isDate && !master.start.isDate ? toInstant(until).getTime() : null;
+      const isPastUntil = (wall: WallTime) => {
+        if (!until) return false;
+        if (untilMs === null) {
+          return wallTimeToMs({ ...wall, hour: 0, minute: 0, second: 0 })
+            > wallTimeToMs({ ...until.wall, hour: 0, minute: 0, second: 0 });
+        }
+        return toInstant({ ...master.start, wall }).getTime() > untilMs;
+      };
+      for (const wall of expandRule(rule, master.start.wall, fromMs, limitMs, isPastUntil)) {
+        starts.push({ ...master.start, wall });
+      }
+    } else {
+      starts.push(master.start);
+    }
+    for (const rdate of parseDateList(getProperties(master.component, 'RDATE'))) {
+      starts.push({ ...rdate, tzid: rdate.tzid ?? master.start.tzid });
+    }
+
+    for (const start of starts) {
+      if (!skipped.has(instanceKey(start))) pushInstance(master, start);
+    }
+    for (const override of eventOverrides) {
+      if (!override.cancelled) pushInstance(override, override.start);
+    }
+  }
+
+  // Overrides whose master isn't in the feed (e.g. shared single instances)
+  for (const orphans of overrides.values()) {
+    for (const override of orphans) {
+      if (!override.cancelled) pushInstance(override, override.start);
+    }
+  }
+
+  results.sort((a, b) => a.start.getTime() - b.start.getTime());
+  return results;
+}
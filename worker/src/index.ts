@@ -7,12 +7,86 @@
  * Inspired by Swiss railway timetables and Braun design
  */
 
+import { AuthResult, AuthSettings, authorizeRequest, checkRateLimit, isAuthRequired } from './auth';
+import { fetchCalDavEvents } from './caldav';
+import { renderDebugPage } from './debug';
+import { DeviceProfile, getDeviceToken, listDeviceTokens, loadDeviceProfile } from './devices';
+import { BitmapFont, Glyph, getGlyphs, measureText, parseBDF, wrapText } from './font';
+import FONT_BDF from './fonts/crosspoint-8x12.bdf';
+import { GOOGLE_TOKEN_URL, GoogleAuth, GoogleCredentials, getGoogleAuth } from './google-auth';
+import { sha256Hex } from './hash';
+import { LocaleSettings, formatDuration, formatHeaderDate, formatMonthYear, formatTime, formatWeekday, getConditionText, getFirstDayOfWeek, resolveLocaleSettings } from './i18n';
+import { parseIcsEvents } from './ics';
+import { LayoutNode, Rect, WidgetOptions, arrangeLayout, parseLayout } from './layout';
+import { createPNG } from './png';
+import { BitDepth, DitherMode, getGrayLevels, packPixels, parseBitDepth, parseDitherMode, quantizePixels } from './quantize';
+import { loadStoredRender, loadStoredRenderInfo, saveStoredRender } from './renders';
+import { addDaysToKey, dateKeyToUtc, daysBetweenKeys, isValidTimezone, toDateKey, toWallTime, wallTimeFromMs, zonedTimeToUtc } from './time';
+
 export interface Env {
   DISPLAY_WIDTH: string;
   DISPLAY_HEIGHT: string;
+  ROTATION?: string;  // Clockwise degrees to turn the image for the panel: 0 (default), 90, 180 or 270
   GOOGLE_CALENDAR_API_KEY?: string;
   GOOGLE_CALENDAR_ID?: string;
+  GOOGLE_SERVICE_ACCOUNT_JSON?: string;     // Service account key file contents
+  GOOGLE_SERVICE_ACCOUNT_SUBJECT?: string;  // User to impersonate (domain-wide delegation)
+  GOOGLE_OAUTH_CLIENT_ID?: string;
+  GOOGLE_OAUTH_CLIENT_SECRET?: string;
+  GOOGLE_OAUTH_REFRESH_TOKEN?: string;
+  GOOGLE_TOKEN_URL?: string;                // Override for testing against a mock
+  GOOGLE_API_BASE_URL?: string;             // Override for testing against a mock
+  ICS_CALENDAR_URL?: string;
+  CALDAV_URL?: string;       // Calendar collection URL
+  CALDAV_USERNAME?: string;
+  CALDAV_PASSWORD?: string;
+  CALENDAR_SOURCES?: string;  // JSON array of CalendarSource
   VISUAL_CROSSING_API_KEY?: string;
+  DEMO_MODE?: string;  // "true" to always show mock calendar data
+  SHOW_HOURLY_CHART?: string;  // "true" to draw today's hourly temperature/precipitation chart
+  VIEW?: string;         // "agenda" (default), "month" or "timeline"
+  TIMELINE_HOURS?: string;  // Hours on the timeline ruler, e.g. "7-20"
+  LAYOUT?: string;          // JSON widget layout for the agenda view
+  TITLE_LINES?: string;  // Max lines per event title (default 2)
+  EVENT_END?: string;       // "range" (default), "duration" or "none"
+  SHOW_LOCATIONS?: string;  // "false" to leave out event locations
+  PAST_EVENTS?: string;     // "dim" (default) or "hide" for events that already ended
+  BIT_DEPTH?: string;  // BMP bits per pixel: 1, 2, 4 or 8 (default)
+  DITHER?: string;     // "none" (default), "floyd-steinberg" or "ordered"
+  OUTPUT_FORMAT?: string;  // "bmp" (default), "png", "png-palette" or "raw"
+  LOCATION_LAT?: string;
+  LOCATION_LON?: string;
+  LOCATION_TIMEZONE?: string;
+  LOCATION_LABEL?: string;
+  UNITS?: string;        // "imperial" (default) or "metric"
+  LOCALE?: string;       // BCP 47 tag for names and date order, e.g. "de-DE"
+  TIME_FORMAT?: string;  // "24h" or "12h"; defaults to the locale's convention
+  DEVICES?: KVNamespace;  // Per-device profiles, keyed by device token
+  AUTH_TOKENS?: string;      // Comma-separated shared secrets; when set (or URL_SIGNING_KEY is), requests need one
+  URL_SIGNING_KEY?: string;  // HMAC key for signed URLs with an expiry
+  UNAUTHORIZED_RESPONSE?: string;  // "status" (plain 401, default) or "image" (a "not authorized" picture)
+  RATE_LIMIT?: string;       // Renders per caller per hour (default 120, 0 for no limit)
+  DEBUG_ROUTES?: string;     // "true" to serve the /debug preview, data and fixture render routes
+  RENDERS?: KVNamespace;     // Images pre-rendered by the cron trigger
+  PRERENDER_TTL?: string;    // Seconds a pre-rendered image is served for (default 900)
+}
+
+// Temperature units for weather requests
+type Units = 'imperial' | 'metric';
+
+function parseUnits(value: string | null | undefined): Units | undefined {
+  const normalized = (value || '').trim().toLowerCase();
+  if (normalized === 'metric' || normalized === 'c' || normalized === 'celsius') return 'metric';
+  if (normalized === 'imperial' || normalized === 'us' || normalized === 'f' || normalized === 'fahrenheit') return 'imperial';
+  return undefined;
+}
+
+// Where the display lives: drives weather, calendar day boundaries and the header label
+interface Location {
+  lat: number;
+  lon: number;
+  timezone: string;  // IANA zone, e.g. "America/New_York"
+  label: string;
 }
 
 // Weather data from Open-Meteo API
@@ -22,6 +96,24 @@ interface WeatherData {
   temperatureLow: number;
   condition: string;
   conditionCode: number;
+  daily: DailyForecast[];  // Today first; empty when unavailable
+  hourly: HourlyForecast[];  // From midnight today; empty when unavailable
+}
+
+// One hour of the hourly forecast
+interface HourlyForecast {
+  time: string;  // YYYY-MM-DDTHH:00 in the location's timezone
+  temperature: number;
+  precipitationProbability: number | null;  // 0-100
+}
+
+// One day of the multi-day forecast
+interface DailyForecast {
+  date: string;  // YYYY-MM-DD in the location's timezone
+  high: number;
+  low: number;
+  conditionCode: number;
+  precipitationProbability: number | null;  // 0-100
 }
 
 // Calendar event
@@ -29,19 +121,96 @@ interface CalendarEvent {
   time: string;
   title: string;
   isAllDay: boolean;
+  source: number;  // Index into the configured calendar sources
+  start: Date;
+  end: Date;       // All-day events: UTC midnight after the last day
+  location?: string;
+  responseStatus?: ResponseStatus;
+  span?: { day: number; days: number };  // Set on events covering several days, e.g. day 2 of 3
+}
+
+// The calendar owner's RSVP, where the source reports one
+type ResponseStatus = 'accepted' | 'tentative' | 'declined' | 'needsAction';
+
+// Where events come from; several can be merged into one agenda
+type CalendarSource =
+  | { type: 'google'; calendarId: string; name?: string; marker?: MarkerShape }
+  | { type: 'ics'; url: string; name?: string; marker?: MarkerShape }
+  | { type: 'caldav'; url: string; username?: string; password?: string; name?: string; marker?: MarkerShape };
+
+// Per-calendar marker drawn beside the time column
+type MarkerShape = 'square' | 'box' | 'dot' | 'ring' | 'diamond' | 'gray';
+
+// Event as returned by a calendar source, before grouping into days
+interface SourceEvent {
+  title: string;
+  start: Date;  // All-day events: UTC midnight of the date
+  end: Date;
+  isAllDay: boolean;
+  source: number;
+  location?: string;
+  responseStatus?: ResponseStatus;
+}
+
+// Whether the agenda reflects live calendar data
+type CalendarStatus =
+  | { state: 'live' }
+  | { state: 'demo' }
+  | { state: 'stale'; since: Date }  // At least one calendar served from the last good fetch
+  | { state: 'unavailable' };        // At least one calendar failed with nothing cached
+
+interface CalendarResult {
+  days: DayEvents[];
+  status: CalendarStatus;
 }
 
 // Day's events with date label
 interface DayEvents {
-  label: string;  // "TODAY", "TOMORROW", "MONDAY", etc.
-  date: Date;
+  label: string;  // "TODAY", "TOMORROW", "MONDAY", etc. (localized)
+  isToday: boolean;
+  date: Date;     // UTC midnight of the local calendar date
   events: CalendarEvent[];
 }
 
-// Brooklyn, NY coordinates (zip 11222)
-const BROOKLYN_LAT = 40.7243;
-const BROOKLYN_LON = -73.9493;
-const TIMEZONE = 'America/New_York';
+// Default location: Brooklyn, NY (zip 11222)
+const DEFAULT_LOCATION: Location = {
+  lat: 40.7243,
+  lon: -73.9493,
+  timezone: 'America/New_York',
+  label: 'BROOKLYN NY',
+};
+
+function parseCoordinate(value: string | null | undefined, limit: number): number | undefined {
+  if (value === null || value === undefined || value.trim() === '') return undefined;
+  const num = parseFloat(value);
+  if (!Number.isFinite(num) || Math.abs(num) > limit) return undefined;
+  return num;
+}
+
+// Resolve location from query parameters (lat, lon, tz, label), then Env, then defaults
+function resolveLocation(env: Env, params: URLSearchParams): Location {
+  const lat = parseCoordinate(params.get('lat'), 90) ?? parseCoordinate(env.LOCATION_LAT, 90);
+  const lon = parseCoordinate(params.get('lon'), 180) ?? parseCoordinate(env.LOCATION_LON, 180);
+
+  let timezone = DEFAULT_LOCATION.timezone;
+  for (const candidate of [params.get('tz'), env.LOCATION_TIMEZONE]) {
+    if (candidate && isValidTimezone(candidate)) {
+      timezone = candidate;
+      break;
+    }
+  }
+
+  // Only fall back to the default label when using the default coordinates
+  const hasCustomCoords = lat !== undefined && lon !== undefined;
+  const label = params.get('label') ?? env.LOCATION_LABEL ?? (hasCustomCoords ? '' : DEFAULT_LOCATION.label);
+
+  return {
+    lat: hasCustomCoords ? lat : DEFAULT_LOCATION.lat,
+    lon: hasCustomCoords ? lon : DEFAULT_LOCATION.lon,
+    timezone,
+    label: label.toUpperCase(),
+  };
+}
 
 // WMO Weather codes to text
 const WMO_CODES: { [key: number]: string } = {
@@ -73,8 +242,10 @@ const WMO_CODES: { [key: number]: string } = {
   99: 'Severe Thunderstorm',
 };
 
-// Cache key for weather data (v2 to reset after adding fallback)
-const WEATHER_CACHE_KEY = 'https://crosspoint-calendar.internal/weather-cache-v2';
+// Cache key for weather data (v5: keyed per location, with daily and hourly forecast)
+const WEATHER_CACHE_KEY = 'https://crosspoint-calendar.internal/weather-cache-v5';
+const FORECAST_DAYS = 5;
+const HOURLY_FORECAST_HOURS = 48; // Today and tomorrow, so late evenings still have hours to chart
 const WEATHER_CACHE_TTL = 15 * 60; // 15 minutes in seconds
 const WEATHER_ERROR_CACHE_TTL = 5 * 60; // 5 minutes for errors (backoff)
 
@@ -99,8 +270,13 @@ const VC_TO_WMO: { [key: string]: number } = {
   'hail': 96,
 };
 
-async function fetchWeatherFromOpenMeteo(): Promise<WeatherData> {
-  const url = `https://api.open-meteo.com/v1/forecast?latitude=${BROOKLYN_LAT}&longitude=${BROOKLYN_LON}&current=temperature_2m,weather_code&daily=temperature_2m_max,temperature_2m_min&temperature_unit=fahrenheit&timezone=${encodeURIComponent(TIMEZONE)}&forecast_days=1`;
+function getWeatherCacheKey(location: Location, units: Units): string {
+  // Round to ~1km so nearby devices share an entry
+  return `${WEATHER_CACHE_KEY}?lat=${location.lat.toFixed(2)}&lon=${location.lon.toFixed(2)}&tz=${encodeURIComponent(location.timezone)}&units=${units}`;
+}
+
+async function fetchWeatherFromOpenMeteo(location: Location, units: Units): Promise<WeatherData> {
+  const url = `https://api.open-meteo.com/v1/forecast?latitude=${location.lat}&longitude=${location.lon}&current=temperature_2m,weather_code&hourly=temperature_2m,precipitation_probability&daily=temperature_2m_max,temperature_2m_min,weather_code,precipitation_probability_max&temperature_unit=${units === 'metric' ? 'celsius' : 'fahrenheit'}&timezone=${encodeURIComponent(location.timezone)}&forecast_days=${FORECAST_DAYS}`;
 
   const response = await fetch(url, {
     headers: {
@@ -114,7 +290,18 @@ async function fetchWeatherFromOpenMeteo(): Promise<WeatherData> {
 
   const data = await response.json() as {
     current: { temperature_2m: number; weather_code: number };
-    daily: { temperature_2m_max: number[]; temperature_2m_min: number[] };
+    daily: {
+      time: string[];
+      temperature_2m_max: number[];
+      temperature_2m_min: number[];
+      weather_code: number[];
+      precipitation_probability_max: Array<number | null>;
+    };
+    hourly: {
+      time: string[];
+      temperature_2m: number[];
+      precipitation_probability: Array<number | null>;
+    };
   };
 
   return {
@@ -123,12 +310,24 @@ async function fetchWeatherFromOpenMeteo(): Promise<WeatherData> {
     temperatureLow: Math.round(data.daily.temperature_2m_min[0]),
     condition: WMO_CODES[data.current.weather_code] || 'Unknown',
     conditionCode: data.current.weather_code,
+    daily: data.daily.time.map((date, i) => ({
+      date,
+      high: Math.round(data.daily.temperature_2m_max[i]),
+      low: Math.round(data.daily.temperature_2m_min[i]),
+      conditionCode: data.daily.weather_code[i],
+      precipitationProbability: data.daily.precipitation_probability_max?.[i] ?? null,
+    })),
+    hourly: (data.hourly?.time || []).slice(0, HOURLY_FORECAST_HOURS).map((time, i) => ({
+      time,
+      temperature: Math.round(data.hourly.temperature_2m[i]),
+      precipitationProbability: data.hourly.precipitation_probability?.[i] ?? null,
+    })),
   };
 }
 
-async function fetchWeatherFromVisualCrossing(apiKey: string): Promise<WeatherData> {
-  const location = `${BROOKLYN_LAT},${BROOKLYN_LON}`;
-  const url = `https://weather.visualcrossing.com/VisualCrossingWebServices/rest/services/timeline/${location}/today?unitGroup=us&include=current,days&key=${apiKey}&contentType=json`;
+async function fetchWeatherFromVisualCrossing(apiKey: string, location: Location, units: Units): Promise<WeatherData> {
+  const coords = `${location.lat},${location.lon}`;
+  const url = `https://weather.visualcrossing.com/VisualCrossingWebServices/rest/services/timeline/${coords}/next${FORECAST_DAYS - 1}days?unitGroup=${units === 'metric' ? 'metric' : 'us'}&include=current,days,hours&timezone=${encodeURIComponent(location.timezone)}&key=${apiKey}&contentType=json`;
 
   const response = await fetch(url);
   if (!response.ok) {
@@ -143,8 +342,16 @@ async function fetchWeatherFromVisualCrossing(apiKey: string): Promise<WeatherDa
       icon: string;
     };
     days: Array<{
+      datetime: string;
       tempmax: number;
       tempmin: number;
+      icon: string;
+      precipprob?: number | null;
+      hours?: Array<{
+        datetime: string;  // HH:MM:SS
+        temp: number;
+        precipprob?: number | null;
+      }>;
     }>;
   };
 
@@ -157,26 +364,63 @@ async function fetchWeatherFromVisualCrossing(apiKey: string): Promise<WeatherDa
     temperatureLow: Math.round(data.days[0].tempmin),
     condition: data.currentConditions.conditions || 'Unknown',
     conditionCode,
+    daily: data.days.slice(0, FORECAST_DAYS).map((day) => ({
+      date: day.datetime,
+      high: Math.round(day.tempmax),
+      low: Math.round(day.tempmin),
+      conditionCode: VC_TO_WMO[day.icon] ?? 3,
+      precipitationProbability: day.precipprob ?? null,
+    })),
+    hourly: data.days.flatMap((day) => (day.hours || []).map((hour) => ({
+      time: `${day.datetime}T${hour.datetime.slice(0, 5)}`,
+      temperature: Math.round(hour.temp),
+      precipitationProbability: hour.precipprob ?? null,
+    }))).slice(0, HOURLY_FORECAST_HOURS),
   };
 }
 
-async function fetchWeather(env: Env): Promise<WeatherData> {
+// Which provider a forecast came from; "none" when every provider failed
+type WeatherProvider = 'open-meteo' | 'visual-crossing' | 'none';
+
+interface WeatherResult {
+  weather: WeatherData;
+  provider: WeatherProvider;
+  cacheKey: string;
+  cached: boolean;  // Served from the cache rather than fetched for this request
+}
+
+// Shown when no provider answered
+const UNAVAILABLE_WEATHER: WeatherData = {
+  temperature: 0,
+  temperatureHigh: 0,
+  temperatureLow: 0,
+  condition: 'Unavailable',
+  conditionCode: -1,
+  daily: [],
+  hourly: [],
+};
+
+async function fetchWeather(env: Env, location: Location, units: Units): Promise<WeatherResult> {
   // Try to get from cache first
   const cache = caches.default;
-  const cachedResponse = await cache.match(WEATHER_CACHE_KEY);
+  const cacheKey = getWeatherCacheKey(location, units);
+  const cachedResponse = await cache.match(cacheKey);
 
   if (cachedResponse) {
     const cached = await cachedResponse.json() as WeatherData;
     console.log('Using cached weather data');
-    return cached;
+    const provider = (cachedResponse.headers.get('X-Weather-Provider') ?? 'none') as WeatherProvider;
+    return { weather: cached, provider, cacheKey, cached: true };
   }
 
   let weatherData: WeatherData | null = null;
+  let provider: WeatherProvider = 'none';
 
   // Try Open-Meteo first
   try {
     console.log('Trying Open-Meteo...');
-    weatherData = await fetchWeatherFromOpenMeteo();
+    weatherData = await fetchWeatherFromOpenMeteo(location, units);
+    provider = 'open-meteo';
     console.log('Open-Meteo succeeded');
   } catch (error) {
     console.error('Open-Meteo failed:', error);
@@ -185,7 +429,8 @@ async function fetchWeather(env: Env): Promise<WeatherData> {
     if (env.VISUAL_CROSSING_API_KEY) {
       try {
         console.log('Trying Visual Crossing fallback...');
-        weatherData = await fetchWeatherFromVisualCrossing(env.VISUAL_CROSSING_API_KEY);
+        weatherData = await fetchWeatherFromVisualCrossing(env.VISUAL_CROSSING_API_KEY, location, units);
+        provider = 'visual-crossing';
         console.log('Visual Crossing succeeded');
       } catch (vcError) {
         console.error('Visual Crossing also failed:', vcError);
@@ -199,163 +444,560 @@ async function fetchWeather(env: Env): Promise<WeatherData> {
       headers: {
         'Content-Type': 'application/json',
         'Cache-Control': `public, max-age=${WEATHER_CACHE_TTL}`,
+        'X-Weather-Provider': provider,
       },
     });
-    await cache.put(WEATHER_CACHE_KEY, cacheResponse);
+    await cache.put(cacheKey, cacheResponse);
     console.log('Cached fresh weather data');
-    return weatherData;
+    return { weather: weatherData, provider, cacheKey, cached: false };
   }
 
   // Both failed - cache error state
   console.error('All weather sources failed');
-  const errorData: WeatherData = {
-    temperature: 0,
-    temperatureHigh: 0,
-    temperatureLow: 0,
-    condition: 'Unavailable',
-    conditionCode: -1,
-  };
-
-  const errorCacheResponse = new Response(JSON.stringify(errorData), {
+  const errorCacheResponse = new Response(JSON.stringify(UNAVAILABLE_WEATHER), {
     headers: {
       'Content-Type': 'application/json',
       'Cache-Control': `public, max-age=${WEATHER_ERROR_CACHE_TTL}`,
+      'X-Weather-Provider': provider,
     },
   });
-  await cache.put(WEATHER_CACHE_KEY, errorCacheResponse);
+  await cache.put(cacheKey, errorCacheResponse);
   console.log('Cached error state for backoff');
 
-  return errorData;
+  return { weather: UNAVAILABLE_WEATHER, provider, cacheKey, cached: false };
 }
 
-const DAY_NAMES = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'];
-
-function getDayLabel(date: Date, todayDate: string, tomorrowDate: string): string {
-  const dateStr = date.toDateString();
-  if (dateStr === todayDate) return 'TODAY';
-  if (dateStr === tomorrowDate) return 'TOMORROW';
-  return DAY_NAMES[date.getDay()];
+function getDayLabel(dateKey: string, todayKey: string, settings: LocaleSettings): string {
+  if (dateKey === todayKey) return settings.strings.today;
+  if (dateKey === addDaysToKey(todayKey, 1)) return settings.strings.tomorrow;
+  // Keys are local calendar dates; naming UTC midnight of that date in UTC gives the right weekday
+  return formatWeekday(dateKeyToUtc(dateKey), 'UTC', settings);
 }
 
-async function fetchCalendarEvents(env: Env): Promise<DayEvents[]> {
-  // If no Google Calendar configured, return mock data
-  if (!env.GOOGLE_CALENDAR_API_KEY || !env.GOOGLE_CALENDAR_ID) {
-    return getMockEvents();
+const GOOGLE_API_BASE_URL = 'https://www.googleapis.com';
+
+// Pick the strongest configured Google credential: service account, then OAuth refresh token, then API key
+function getGoogleCredentials(env: Env): GoogleCredentials | null {
+  if (env.GOOGLE_SERVICE_ACCOUNT_JSON) {
+    try {
+      const key = JSON.parse(env.GOOGLE_SERVICE_ACCOUNT_JSON) as { client_email?: string; private_key?: string };
+      if (key.client_email && key.private_key) {
+        return {
+          type: 'serviceAccount',
+          clientEmail: key.client_email,
+          privateKey: key.private_key,
+          subject: env.GOOGLE_SERVICE_ACCOUNT_SUBJECT,
+        };
+      }
+      console.error('GOOGLE_SERVICE_ACCOUNT_JSON is missing client_email or private_key');
+    } catch (error) {
+      console.error('Invalid GOOGLE_SERVICE_ACCOUNT_JSON:', error);
+    }
   }
 
-  try {
-    const now = new Date();
-    const todayStart = new Date(now.toLocaleString('en-US', { timeZone: TIMEZONE }));
-    todayStart.setHours(0, 0, 0, 0);
+  if (env.GOOGLE_OAUTH_CLIENT_ID && env.GOOGLE_OAUTH_CLIENT_SECRET && env.GOOGLE_OAUTH_REFRESH_TOKEN) {
+    return {
+      type: 'refreshToken',
+      clientId: env.GOOGLE_OAUTH_CLIENT_ID,
+      clientSecret: env.GOOGLE_OAUTH_CLIENT_SECRET,
+      refreshToken: env.GOOGLE_OAUTH_REFRESH_TOKEN,
+    };
+  }
+
+  if (env.GOOGLE_CALENDAR_API_KEY) {
+    return { type: 'apiKey', apiKey: env.GOOGLE_CALENDAR_API_KEY };
+  }
 
-    // Fetch up to 7 days ahead to have enough content
-    const endDate = new Date(todayStart);
-    endDate.setDate(endDate.getDate() + 7);
+  return null;
+}
 
-    const url = `https://www.googleapis.com/calendar/v3/calendars/${encodeURIComponent(env.GOOGLE_CALENDAR_ID)}/events?key=${env.GOOGLE_CALENDAR_API_KEY}&timeMin=${todayStart.toISOString()}&timeMax=${endDate.toISOString()}&singleEvents=true&orderBy=startTime&maxResults=50`;
+const GOOGLE_PAGE_SIZE = 250;  // Events per request (Google's default)
+const MAX_GOOGLE_PAGES = 10;   // Bounds the requests per calendar; 2,500 events is plenty for six weeks
+
+// The fields read from a Google Calendar API event
+interface GoogleCalendarItem {
+  summary: string;
+  status?: string;
+  location?: string;
+  start: { dateTime?: string; date?: string };
+  end?: { dateTime?: string; date?: string };
+  attendees?: Array<{ self?: boolean; responseStatus?: ResponseStatus }>;
+}
 
-    const response = await fetch(url);
+async function fetchGoogleCalendarEvents(
+  auth: GoogleAuth,
+  calendarId: string,
+  timeMin: Date,
+  timeMax: Date,
+  source: number,
+  apiBaseUrl: string = GOOGLE_API_BASE_URL
+): Promise<SourceEvent[]> {
+  const keyParam = 'apiKey' in auth ? `key=${auth.apiKey}&` : '';
+  const baseUrl = `${apiBaseUrl}/calendar/v3/calendars/${encodeURIComponent(calendarId)}/events?${keyParam}timeMin=${timeMin.toISOString()}&timeMax=${timeMax.toISOString()}&singleEvents=true&orderBy=startTime&maxResults=${GOOGLE_PAGE_SIZE}`;
+  const headers: HeadersInit = 'accessToken' in auth ? { 'Authorization': `Bearer ${auth.accessToken}` } : {};
+
+  // Busy calendars over the month grid's six weeks can run to several pages
+  const items: GoogleCalendarItem[] = [];
+  let pageToken: string | undefined;
+  for (let page = 0; page < MAX_GOOGLE_PAGES; page++) {
+    const url = pageToken ? `${baseUrl}&pageToken=${encodeURIComponent(pageToken)}` : baseUrl;
+    const response = await fetch(url, { headers });
     if (!response.ok) {
       throw new Error(`Calendar API error: ${response.status}`);
     }
 
-    const data = await response.json() as {
-      items: Array<{
-        summary: string;
-        start: { dateTime?: string; date?: string };
-      }>;
-    };
+    const data = await response.json() as { items?: GoogleCalendarItem[]; nextPageToken?: string };
+    items.push(...(data.items || []));
+    pageToken = data.nextPageToken;
+    if (!pageToken) break;
+  }
+  if (pageToken) {
+    console.error(`Google calendar ${calendarId} has more than ${MAX_GOOGLE_PAGES * GOOGLE_PAGE_SIZE} events in range; showing the first`);
+  }
+
+  return items
+    .filter((item) => item.status !== 'cancelled')
+    .map((item) => {
+      const start = new Date(item.start.dateTime || item.start.date || '');
+      const end = item.end ? new Date(item.end.dateTime || item.end.date || '') : start;
+      return {
+        title: item.summary || 'Untitled',
+        start,
+        end: isNaN(end.getTime()) ? start : end,
+        isAllDay: !item.start.dateTime,
+        source,
+        location: item.location?.trim() || undefined,
+        responseStatus: item.attendees?.find((attendee) => attendee.self)?.responseStatus,
+      };
+    });
+}
+
+async function fetchIcsCalendarEvents(
+  feedUrl: string,
+  timeMin: Date,
+  timeMax: Date,
+  location: Location,
+  source: number
+): Promise<SourceEvent[]> {
+  // webcal:// is just a hint for desktop clients; the feed itself is served over HTTPS
+  const url = feedUrl.replace(/^webcals?:\/\//i, 'https://');
+
+  const response = await fetch(url, {
+    headers: {
+      'Accept': 'text/calendar',
+      'User-Agent': 'CrossPointCalendar/1.0 (e-ink display; https://github.com/ckorhonen/crosspoint-calendar)',
+    },
+  });
+  if (!response.ok) {
+    throw new Error(`ICS feed error: ${response.status}`);
+  }
+
+  const events = parseIcsEvents(await response.text(), timeMin, timeMax, location.timezone);
+  return events.map((event) => ({
+    title: event.summary || 'Untitled',
+    start: event.start,
+    end: event.end,
+    isAllDay: event.isAllDay,
+    source,
+    location: event.location,
+  }));
+}
+
+async function fetchCalDavCalendarEvents(
+  source: Extract<CalendarSource, { type: 'caldav' }>,
+  timeMin: Date,
+  timeMax: Date,
+  location: Location,
+  sourceIndex: number
+): Promise<SourceEvent[]> {
+  const credentials = source.username ? { username: source.username, password: source.password || '' } : null;
+  const events = await fetchCalDavEvents(source.url, credentials, timeMin, timeMax, location.timezone);
+  return events.map((event) => ({
+    title: event.summary || 'Untitled',
+    start: event.start,
+    end: event.end,
+    isAllDay: event.isAllDay,
+    source: sourceIndex,
+    location: event.location,
+  }));
+}
 
-    // Group events by date
-    const eventsByDate = new Map<string, { date: Date; events: CalendarEvent[] }>();
+const DAYS_AHEAD = 7;  // Days of agenda fetched, including today
 
-    const nowLocal = new Date(now.toLocaleString('en-US', { timeZone: TIMEZONE }));
-    const todayDate = nowLocal.toDateString();
-    const tomorrowDate = new Date(nowLocal.getTime() + 86400000).toDateString();
+// Local calendar days to fetch and lay out, starting at a "YYYY-MM-DD" date key
+interface CalendarRange {
+  firstDay: string;
+  days: number;
+}
+
+function getAgendaRange(now: Date, location: Location): CalendarRange {
+  return { firstDay: toDateKey(now, location.timezone), days: DAYS_AHEAD };
+}
 
-    for (const item of data.items || []) {
-      const isAllDay = !item.start.dateTime;
-      const startStr = item.start.dateTime || item.start.date || '';
-      const startDate = new Date(startStr);
-      const eventDateStr = startDate.toDateString();
+/**
+ * Place events on the local calendar days they cover within the range (today by default through DAYS_AHEAD).
+ * Timed events use wall-clock dates in the display's timezone; all-day events keep their own dates.
+ * Events spanning several days are repeated on each one, including days after an earlier start.
+ */
+function groupEventsByDay(
+  events: SourceEvent[],
+  now: Date,
+  location: Location,
+  settings: LocaleSettings,
+  range: CalendarRange = getAgendaRange(now, location)
+): DayEvents[] {
+  const todayKey = toDateKey(now, location.timezone);
+  const lastKey = addDaysToKey(range.firstDay, range.days - 1);
+  const eventsByDate = new Map<string, CalendarEvent[]>();
+
+  for (const item of events) {
+    // All-day dates are stored as UTC midnight, so read them back in UTC
+    const zone = item.isAllDay ? 'UTC' : location.timezone;
+    const firstKey = toDateKey(item.start, zone);
+    // An event ending at midnight doesn't cover the day that starts then
+    const lastMs = Math.max(item.start.getTime(), item.end.getTime() - 1);
+    const dayCount = daysBetweenKeys(firstKey, toDateKey(new Date(lastMs), zone)) + 1;
+
+    for (let dayIndex = 0; dayIndex < dayCount; dayIndex++) {
+      const key = addDaysToKey(firstKey, dayIndex);
+      if (key < range.firstDay) continue;
+      if (key > lastKey) break;
+
+      // Timed events show their start on the first day, their end on the last, and span the days between
+      let time = settings.strings.allDay;
+      if (!item.isAllDay && dayIndex === 0) {
+        time = formatTime(item.start, location.timezone, settings);
+      } else if (!item.isAllDay && dayIndex === dayCount - 1) {
+        time = `\u2013${formatTime(item.end, location.timezone, settings)}`;
+      }
 
       const event: CalendarEvent = {
-        title: item.summary || 'Untitled',
-        time: isAllDay ? 'All Day' : startDate.toLocaleTimeString('en-US', {
-          hour: '2-digit',
-          minute: '2-digit',
-          hour12: false,
-          timeZone: TIMEZONE,
-        }),
-        isAllDay,
+        title: item.title,
+        time,
+        isAllDay: item.isAllDay,
+        source: item.source,
+        start: item.start,
+        end: item.end,
+        location: item.location,
+        responseStatus: item.responseStatus,
+        span: dayCount > 1 ? { day: dayIndex + 1, days: dayCount } : undefined,
       };
 
-      if (!eventsByDate.has(eventDateStr)) {
-        eventsByDate.set(eventDateStr, { date: startDate, events: [] });
+      if (!eventsByDate.has(key)) eventsByDate.set(key, []);
+      eventsByDate.get(key)!.push(event);
+    }
+  }
+
+  // Today is always shown, even when empty
+  if (!eventsByDate.has(todayKey)) eventsByDate.set(todayKey, []);
+
+  return [...eventsByDate.keys()].sort().map((key) => {
+    // All-day events and days carried over from earlier ones come before the day's timed events
+    const dayEvents = eventsByDate.get(key)!;
+    const timed = (event: CalendarEvent) => !event.isAllDay && (!event.span || event.span.day === 1);
+    dayEvents.sort((a, b) => Number(timed(a)) - Number(timed(b))
+      || (timed(a) && timed(b) ? a.start.getTime() - b.start.getTime() : 0));
+
+    return {
+      label: getDayLabel(key, todayKey, settings),
+      isToday: key === todayKey,
+      date: dateKeyToUtc(key),
+      events: dayEvents,
+    };
+  });
+}
+
+const MARKER_SHAPES: MarkerShape[] = ['square', 'box', 'dot', 'ring', 'diamond', 'gray'];
+
+// Collect calendar sources from CALENDAR_SOURCES, falling back to the single-calendar settings
+function getCalendarSources(env: Env): CalendarSource[] {
+  const sources: CalendarSource[] = [];
+
+  if (env.CALENDAR_SOURCES) {
+    try {
+      const parsed = JSON.parse(env.CALENDAR_SOURCES) as unknown;
+      for (const entry of Array.isArray(parsed) ? parsed : []) {
+        const marker = MARKER_SHAPES.includes(entry?.marker) ? entry.marker as MarkerShape : undefined;
+        const name = typeof entry?.name === 'string' ? entry.name : undefined;
+        if (entry?.type === 'google' && typeof entry.calendarId === 'string') {
+          sources.push({ type: 'google', calendarId: entry.calendarId, name, marker });
+        } else if (entry?.type === 'ics' && typeof entry.url === 'string') {
+          sources.push({ type: 'ics', url: entry.url, name, marker });
+        } else if (entry?.type === 'caldav' && typeof entry.url === 'string') {
+          const username = typeof entry.username === 'string' ? entry.username : undefined;
+          const password = typeof entry.password === 'string' ? entry.password : undefined;
+          sources.push({ type: 'caldav', url: entry.url, username, password, name, marker });
+        } else {
+          console.error('Ignoring invalid calendar source:', JSON.stringify(entry));
+        }
       }
-      eventsByDate.get(eventDateStr)!.events.push(event);
+    } catch (error) {
+      console.error('Invalid CALENDAR_SOURCES JSON:', error);
+    }
+  }
+
+  if (env.ICS_CALENDAR_URL) {
+    sources.push({ type: 'ics', url: env.ICS_CALENDAR_URL });
+  }
+  if (env.CALDAV_URL) {
+    sources.push({ type: 'caldav', url: env.CALDAV_URL, username: env.CALDAV_USERNAME, password: env.CALDAV_PASSWORD });
+  }
+  if (env.GOOGLE_CALENDAR_ID) {
+    // Comma-separated IDs are accepted for convenience
+    for (const calendarId of env.GOOGLE_CALENDAR_ID.split(',').map((id) => id.trim()).filter(Boolean)) {
+      sources.push({ type: 'google', calendarId });
     }
+  }
 
-    // Convert to array and add labels
-    const days: DayEvents[] = [];
-    for (const [dateStr, { date, events }] of eventsByDate) {
-      days.push({
-        label: getDayLabel(date, todayDate, tomorrowDate),
-        date,
-        events,
-      });
+  // Google sources stay in even without credentials, so they fail visibly instead of vanishing
+  return sources;
+}
+
+function getSourceMarker(sources: CalendarSource[], index: number): MarkerShape {
+  return sources[index]?.marker ?? MARKER_SHAPES[index % MARKER_SHAPES.length];
+}
+
+// Drop the same event published by more than one calendar (e.g. a shared meeting)
+function dedupeEvents(events: SourceEvent[]): SourceEvent[] {
+  const seen = new Set<string>();
+  return events.filter((event) => {
+    const key = `${event.start.getTime()}|${event.isAllDay}|${event.title.trim().toLowerCase()}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Last successful fetch per calendar source, served when the source later fails
+const CALENDAR_CACHE_KEY = 'https://crosspoint-calendar.internal/calendar-last-good-v1';
+const CALENDAR_CACHE_TTL = 7 * 24 * 60 * 60; // 7 days in seconds
+// Unchanged calendars are rewritten this often, so the stale label's time stays close
+const CALENDAR_CACHE_REFRESH = 60 * 60; // 1 hour in seconds
+
+interface CachedCalendar {
+  fetchedAt: string;
+  events: Array<{
+    title: string;
+    start: string;
+    end?: string;  // Missing in entries cached before end times were kept
+    isAllDay: boolean;
+    location?: string;
+    responseStatus?: ResponseStatus;
+  }>;
+}
+
+async function getCalendarCacheKey(source: CalendarSource, range: CalendarRange): Promise<string> {
+  // Hash the whole source config so credentials never appear in the key. Keyed by the
+  // range's length (agenda vs. month grid) but not its first day, so yesterday's copy
+  // still covers a source that starts failing after midnight
+  return `${CALENDAR_CACHE_KEY}?id=${await sha256Hex(JSON.stringify(source))}&days=${range.days}`;
+}
+
+async function saveLastGoodCalendar(
+  source: CalendarSource,
+  range: CalendarRange,
+  events: SourceEvent[],
+  fetchedAt: Date
+): Promise<void> {
+  const cached: CachedCalendar = {
+    fetchedAt: fetchedAt.toISOString(),
+    events: events.map((event) => ({
+      title: event.title,
+      start: event.start.toISOString(),
+      end: event.end.toISOString(),
+      isAllDay: event.isAllDay,
+      location: event.location,
+      responseStatus: event.responseStatus,
+    })),
+  };
+  const cacheKey = await getCalendarCacheKey(source, range);
+  const contentHash = await sha256Hex(JSON.stringify(cached.events));
+
+  // Skip the write when nothing changed since a recent one
+  const existing = await caches.default.match(cacheKey);
+  if (existing) {
+    const existingFetchedAt = Date.parse(existing.headers.get('X-Fetched-At') ?? '');
+    if (existing.headers.get('X-Content-Hash') === contentHash
+      && fetchedAt.getTime() - existingFetchedAt < CALENDAR_CACHE_REFRESH * 1000) {
+      return;
     }
+  }
 
-    // Sort by date
-    days.sort((a, b) => a.date.getTime() - b.date.getTime());
+  await caches.default.put(cacheKey, new Response(JSON.stringify(cached), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': `public, max-age=${CALENDAR_CACHE_TTL}`,
+      'X-Content-Hash': contentHash,
+      'X-Fetched-At': cached.fetchedAt,
+    },
+  }));
+}
 
-    // If today has no events, still include it as empty
-    if (days.length === 0 || days[0].label !== 'TODAY') {
-      days.unshift({
-        label: 'TODAY',
-        date: nowLocal,
-        events: [],
-      });
+async function loadLastGoodCalendar(
+  source: CalendarSource,
+  range: CalendarRange,
+  sourceIndex: number
+): Promise<{ events: SourceEvent[]; fetchedAt: Date } | null> {
+  const cachedResponse = await caches.default.match(await getCalendarCacheKey(source, range));
+  if (!cachedResponse) return null;
+
+  const cached = await cachedResponse.json() as CachedCalendar;
+  return {
+    fetchedAt: new Date(cached.fetchedAt),
+    events: cached.events.map((event) => ({
+      title: event.title,
+      start: new Date(event.start),
+      end: new Date(event.end ?? event.start),
+      isAllDay: event.isAllDay,
+      source: sourceIndex,
+      location: event.location,
+      responseStatus: event.responseStatus,
+    })),
+  };
+}
+
+async function fetchCalendarEvents(
+  env: Env,
+  location: Location,
+  settings: LocaleSettings,
+  now: Date,
+  demo: boolean = false,
+  range: CalendarRange | null = null
+): Promise<CalendarResult> {
+  const sources = getCalendarSources(env);
+
+  // Mock data only when explicitly asked for, or when no calendar is configured at all
+  if (demo || env.DEMO_MODE === 'true' || sources.length === 0) {
+    return { days: getMockEvents(location, settings, now), status: { state: 'demo' } };
+  }
+
+  const calendarRange = range ?? getAgendaRange(now, location);
+
+  // Local midnights bounding the range (so DST days are 23 or 25 hours); the agenda fetches 7 days ahead
+  const midnight = wallTimeFromMs(dateKeyToUtc(calendarRange.firstDay).getTime());
+  const rangeStart = zonedTimeToUtc(midnight, location.timezone);
+  const rangeEnd = zonedTimeToUtc({ ...midnight, day: midnight.day + calendarRange.days }, location.timezone);
+
+  // Resolve Google credentials once (token exchange is cached) for all Google sources
+  const googleCredentials = getGoogleCredentials(env);
+  const googleAuth = googleCredentials && sources.some((source) => source.type === 'google')
+    ? getGoogleAuth(googleCredentials, env.GOOGLE_TOKEN_URL || GOOGLE_TOKEN_URL)
+    : null;
+
+  // Fetch all calendars in parallel; one failing doesn't blank out the others
+  const results = await Promise.allSettled(sources.map(async (source, index) => {
+    switch (source.type) {
+      case 'ics':
+        return fetchIcsCalendarEvents(source.url, rangeStart, rangeEnd, location, index);
+      case 'caldav':
+        return fetchCalDavCalendarEvents(source, rangeStart, rangeEnd, location, index);
+      case 'google':
+        if (!googleAuth) throw new Error('No Google credentials configured');
+        return fetchGoogleCalendarEvents(await googleAuth, source.calendarId, rangeStart, rangeEnd, index, env.GOOGLE_API_BASE_URL || GOOGLE_API_BASE_URL);
     }
+  }));
 
-    return days;
-  } catch (error) {
-    console.error('Calendar fetch error:', error);
-    return getMockEvents();
+  // Cache fresh results and look up fallbacks for failed sources, all in parallel
+  const outcomes = await Promise.all(sources.map(async (source, index) => {
+    const result = results[index];
+    if (result.status === 'fulfilled') {
+      try {
+        await saveLastGoodCalendar(source, calendarRange, result.value, now);
+      } catch (error) {
+        console.error('Failed to cache calendar:', error);
+      }
+      return { events: result.value, fetchedAt: null };
+    }
+
+    console.error(`Calendar fetch error (${source.name || source.type} #${index}):`, result.reason);
+
+    // Fall back to the last good copy, trimmed to the current window
+    const lastGood = await loadLastGoodCalendar(source, calendarRange, index);
+    if (!lastGood) return null;
+    console.log(`Using cached calendar from ${lastGood.fetchedAt.toISOString()} for source #${index}`);
+    return {
+      events: lastGood.events.filter((event) => event.end.getTime() > rangeStart.getTime()
+        && event.start.getTime() < rangeEnd.getTime()),
+      fetchedAt: lastGood.fetchedAt,
+    };
+  }));
+
+  const events: SourceEvent[] = [];
+  let staleSince: Date | null = null;
+  let unavailable = false;
+
+  for (const outcome of outcomes) {
+    if (!outcome) {
+      unavailable = true;
+      continue;
+    }
+    events.push(...outcome.events);
+    if (outcome.fetchedAt && (!staleSince || outcome.fetchedAt < staleSince)) staleSince = outcome.fetchedAt;
   }
+
+  let status: CalendarStatus = { state: 'live' };
+  if (unavailable) status = { state: 'unavailable' };
+  else if (staleSince) status = { state: 'stale', since: staleSince };
+
+  // Sources return their own ordering; merge chronologically (stable, so source order breaks ties)
+  events.sort((a, b) => a.start.getTime() - b.start.getTime());
+  return { days: groupEventsByDay(dedupeEvents(events), now, location, settings, calendarRange), status };
 }
 
-function getMockEvents(): DayEvents[] {
-  const now = new Date();
-  const tomorrow = new Date(now.getTime() + 86400000);
+// Sample agenda for today and tomorrow, relative to now
+function getMockEvents(location: Location, settings: LocaleSettings, now: Date): DayEvents[] {
+  const today = toWallTime(now, location.timezone);
+  const todayKey = toDateKey(now, location.timezone);
+
+  // Timed mock event at a wall-clock time in the display's timezone
+  const mock = (title: string, dayOffset: number, hour: number, minute: number, minutes: number, eventLocation?: string): CalendarEvent => {
+    const start = zonedTimeToUtc({ ...today, day: today.day + dayOffset, hour, minute, second: 0 }, location.timezone);
+    return {
+      time: formatTime(start, location.timezone, settings),
+      title,
+      isAllDay: false,
+      source: 0,
+      start,
+      end: new Date(start.getTime() + minutes * 60000),
+      location: eventLocation,
+    };
+  };
+
   return [
     {
-      label: 'TODAY',
-      date: now,
+      label: settings.strings.today,
+      isToday: true,
+      date: dateKeyToUtc(todayKey),
       events: [
-        { time: '09:00', title: 'Team Standup', isAllDay: false },
-        { time: '11:30', title: 'Design Review', isAllDay: false },
-        { time: '14:00', title: 'Deep Work Block', isAllDay: false },
+        mock('Team Standup', 0, 9, 0, 15),
+        mock('Design Review', 0, 11, 30, 60, 'Room 4B'),
+        mock('Deep Work Block', 0, 14, 0, 120),
       ],
     },
     {
-      label: 'TOMORROW',
-      date: tomorrow,
+      label: settings.strings.tomorrow,
+      isToday: false,
+      date: dateKeyToUtc(addDaysToKey(todayKey, 1)),
       events: [
-        { time: '10:00', title: 'Client Call', isAllDay: false },
+        mock('Client Call', 1, 10, 0, 30),
       ],
     },
   ];
 }
 
 // ============================================================================
-// BMP Generation
+// Image Output
 // ============================================================================
 
-function createBMP(width: number, height: number, pixelData: Uint8Array): Uint8Array {
-  const paddedRowSize = Math.ceil(width / 4) * 4;
+/**
+ * Write palette indices as a top-down BMP with a grayscale palette of 2^bitDepth entries.
+ * Below 8 bits, pixels are packed MSB first; each row is padded to 4 bytes.
+ */
+function createBMP(width: number, height: number, pixelData: Uint8Array, bitDepth: BitDepth = 8): Uint8Array {
+  const palette = getGrayLevels(bitDepth);
+  const paddedRowSize = Math.ceil((width * bitDepth) / 32) * 4;
   const pixelDataSize = paddedRowSize * height;
-  const paletteSize = 256 * 4;
+  const paletteSize = palette.length * 4;
   const headerSize = 14;
   const dibHeaderSize = 40;
   const fileSize = headerSize + dibHeaderSize + paletteSize + pixelDataSize;
@@ -374,32 +1016,154 @@ function createBMP(width: number, height: number, pixelData: Uint8Array): Uint8A
   view.setInt32(18, width, true);
   view.setInt32(22, -height, true); // negative = top-down
   view.setUint16(26, 1, true);
-  view.setUint16(28, 8, true); // 8-bit
+  view.setUint16(28, bitDepth, true);
   view.setUint32(30, 0, true);
   view.setUint32(34, pixelDataSize, true);
   view.setInt32(38, 2835, true);
   view.setInt32(42, 2835, true);
-  view.setUint32(46, 256, true);
-  view.setUint32(50, 256, true);
+  view.setUint32(46, palette.length, true);
+  view.setUint32(50, palette.length, true);
 
   // Grayscale palette
   const paletteOffset = headerSize + dibHeaderSize;
-  for (let i = 0; i < 256; i++) {
-    buffer[paletteOffset + i * 4 + 0] = i;
-    buffer[paletteOffset + i * 4 + 1] = i;
-    buffer[paletteOffset + i * 4 + 2] = i;
+  for (let i = 0; i < palette.length; i++) {
+    buffer[paletteOffset + i * 4 + 0] = palette[i];
+    buffer[paletteOffset + i * 4 + 1] = palette[i];
+    buffer[paletteOffset + i * 4 + 2] = palette[i];
     buffer[paletteOffset + i * 4 + 3] = 0;
   }
 
   // Pixel data
-  const pixelOffset = headerSize + dibHeaderSize + paletteSize;
+  buffer.set(packPixels(pixelData, width, height, bitDepth, paddedRowSize), headerSize + dibHeaderSize + paletteSize);
+
+  return buffer;
+}
+
+// Response body: BMP, PNG (grayscale or indexed) or "raw", the packed rows with no header at all
+type OutputFormat = 'bmp' | 'png' | 'png-palette' | 'raw';
+
+function parseOutputFormat(value: string | null | undefined): OutputFormat | undefined {
+  return value === 'bmp' || value === 'png' || value === 'png-palette' || value === 'raw' ? value : undefined;
+}
+
+const ACCEPT_FORMATS: { [mediaType: string]: OutputFormat } = {
+  'image/bmp': 'bmp',
+  'image/png': 'png',
+  'application/octet-stream': 'raw',
+};
+
+// First supported media type listed in an Accept header; wildcards and q=0 entries are skipped
+function negotiateOutputFormat(accept: string | null): OutputFormat | undefined {
+  for (const entry of (accept ?? '').split(',')) {
+    const [mediaType, ...params] = entry.toLowerCase().split(';').map((part) => part.trim());
+    if (params.some((param) => /^q=0(\.0*)?$/.test(param))) continue;
+    const format = ACCEPT_FORMATS[mediaType];
+    if (format) return format;
+  }
+  return undefined;
+}
+
+// Areas of a render that change every time without changing what it shows, i.e. the footer's
+// generated time; keyed by pixel buffer so the drawing code doesn't have to pass them back
+const volatileAreas = new WeakMap<Uint8Array, Rect[]>();
+
+function markVolatile(pixels: Uint8Array, area: Rect) {
+  const areas = volatileAreas.get(pixels) ?? [];
+  areas.push(area);
+  volatileAreas.set(pixels, areas);
+}
+
+/**
+ * ETag for a render: a hash of its pixels, with volatile areas blanked, and of the output
+ * settings that turn those pixels into a file. Equal tags mean the display wouldn't change.
+ */
+async function getContentTag(pixels: Uint8Array, width: number, output: OutputSettings): Promise<string> {
+  const height = pixels.length / width;
+  const settingsBytes = new TextEncoder().encode(`${output.format}|${output.bitDepth}|${output.dither}|${output.rotation}`);
+  const content = new Uint8Array(pixels.length + settingsBytes.length);
+  content.set(pixels);
+  content.set(settingsBytes, pixels.length);
+
+  for (const area of volatileAreas.get(pixels) ?? []) {
+    const x1 = Math.max(0, Math.floor(area.x));
+    const x2 = Math.min(width, Math.ceil(area.x + area.width));
+    for (let y = Math.max(0, Math.floor(area.y)); y < Math.min(height, area.y + area.height); y++) {
+      if (x2 > x1) content.fill(PAPER_WHITE, y * width + x1, y * width + x2);
+    }
+  }
+
+  return `"${(await sha256Hex(content)).slice(0, 32)}"`;
+}
+
+// If-None-Match holds a list of tags, possibly weak (W/"...") or "*"
+function matchesETag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch.split(',').some((tag) => {
+    const candidate = tag.trim().replace(/^W\//, '');
+    return candidate === '*' || candidate === etag;
+  });
+}
+
+// Clockwise turn applied to the finished image, for panels mounted sideways or upside down
+type Rotation = 0 | 90 | 180 | 270;
+
+function parseRotation(value: string | null | undefined): Rotation | undefined {
+  const degrees = parseInt(value ?? '', 10);
+  return degrees === 0 || degrees === 90 || degrees === 180 || degrees === 270 ? degrees : undefined;
+}
+
+// Rotate a width x height image; a quarter turn swaps the output's width and height
+function rotatePixels(pixels: Uint8Array, width: number, height: number, rotation: Rotation): Uint8Array {
+  if (rotation === 0) return pixels;
+  const rotated = new Uint8Array(pixels.length);
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
-      buffer[pixelOffset + y * paddedRowSize + x] = pixelData[y * width + x];
+      const value = pixels[y * width + x];
+      if (rotation === 90) {
+        rotated[x * height + (height - 1 - y)] = value;
+      } else if (rotation === 180) {
+        rotated[(height - 1 - y) * width + (width - 1 - x)] = value;
+      } else {
+        rotated[(width - 1 - x) * height + y] = value;
+      }
     }
   }
+  return rotated;
+}
 
-  return buffer;
+interface EncodedImage {
+  body: Uint8Array;
+  contentType: string;
+  filename: string;
+}
+
+// How a render becomes the file a panel downloads
+interface OutputSettings {
+  format: OutputFormat;
+  bitDepth: BitDepth;
+  dither: DitherMode;
+  rotation: Rotation;
+}
+
+// Reduce a width x height render to the panel's gray levels, turn it to fit the panel, and encode it
+async function encodeImage(pixels: Uint8Array, width: number, height: number, output: OutputSettings): Promise<EncodedImage> {
+  const { format, bitDepth, rotation } = output;
+  const indices = rotatePixels(quantizePixels(pixels, width, height, bitDepth, output.dither, UI_COLORS), width, height, rotation);
+  const [panelWidth, panelHeight] = rotation % 180 === 0 ? [width, height] : [height, width];
+
+  switch (format) {
+    case 'png':
+    case 'png-palette':
+      return {
+        body: await createPNG(panelWidth, panelHeight, indices, bitDepth, format === 'png' ? 'gray' : 'palette'),
+        contentType: 'image/png',
+        filename: 'calendar.png',
+      };
+    case 'raw':
+      return { body: packPixels(indices, panelWidth, panelHeight, bitDepth), contentType: 'application/octet-stream', filename: 'calendar.bin' };
+    default:
+      return { body: createBMP(panelWidth, panelHeight, indices, bitDepth), contentType: 'image/bmp', filename: 'calendar.bmp' };
+  }
 }
 
 // ============================================================================
@@ -412,96 +1176,27 @@ const DARK_GRAY = 64;
 const LIGHT_GRAY = 176;
 const PAPER_WHITE = 255;
 
-// Extended 8x12 bitmap font
-const FONT_DATA: { [key: string]: number[] } = {
-  '0': [0x3C,0x66,0x6E,0x76,0x66,0x66,0x3C,0x00,0x00,0x00,0x00,0x00],
-  '1': [0x18,0x38,0x18,0x18,0x18,0x18,0x7E,0x00,0x00,0x00,0x00,0x00],
-  '2': [0x3C,0x66,0x06,0x1C,0x30,0x60,0x7E,0x00,0x00,0x00,0x00,0x00],
-  '3': [0x3C,0x66,0x06,0x1C,0x06,0x66,0x3C,0x00,0x00,0x00,0x00,0x00],
-  '4': [0x0C,0x1C,0x3C,0x6C,0x7E,0x0C,0x0C,0x00,0x00,0x00,0x00,0x00],
-  '5': [0x7E,0x60,0x7C,0x06,0x06,0x66,0x3C,0x00,0x00,0x00,0x00,0x00],
-  '6': [0x1C,0x30,0x60,0x7C,0x66,0x66,0x3C,0x00,0x00,0x00,0x00,0x00],
-  '7': [0x7E,0x06,0x0C,0x18,0x30,0x30,0x30,0x00,0x00,0x00,0x00,0x00],
-  '8': [0x3C,0x66,0x66,0x3C,0x66,0x66,0x3C,0x00,0x00,0x00,0x00,0x00],
-  '9': [0x3C,0x66,0x66,0x3E,0x06,0x0C,0x38,0x00,0x00,0x00,0x00,0x00],
-  'A': [0x18,0x3C,0x66,0x66,0x7E,0x66,0x66,0x00,0x00,0x00,0x00,0x00],
-  'B': [0x7C,0x66,0x66,0x7C,0x66,0x66,0x7C,0x00,0x00,0x00,0x00,0x00],
-  'C': [0x3C,0x66,0x60,0x60,0x60,0x66,0x3C,0x00,0x00,0x00,0x00,0x00],
-  'D': [0x78,0x6C,0x66,0x66,0x66,0x6C,0x78,0x00,0x00,0x00,0x00,0x00],
-  'E': [0x7E,0x60,0x60,0x7C,0x60,0x60,0x7E,0x00,0x00,0x00,0x00,0x00],
-  'F': [0x7E,0x60,0x60,0x7C,0x60,0x60,0x60,0x00,0x00,0x00,0x00,0x00],
-  'G': [0x3C,0x66,0x60,0x6E,0x66,0x66,0x3C,0x00,0x00,0x00,0x00,0x00],
-  'H': [0x66,0x66,0x66,0x7E,0x66,0x66,0x66,0x00,0x00,0x00,0x00,0x00],
-  'I': [0x3C,0x18,0x18,0x18,0x18,0x18,0x3C,0x00,0x00,0x00,0x00,0x00],
-  'J': [0x06,0x06,0x06,0x06,0x06,0x66,0x3C,0x00,0x00,0x00,0x00,0x00],
-  'K': [0x66,0x6C,0x78,0x70,0x78,0x6C,0x66,0x00,0x00,0x00,0x00,0x00],
-  'L': [0x60,0x60,0x60,0x60,0x60,0x60,0x7E,0x00,0x00,0x00,0x00,0x00],
-  'M': [0x63,0x77,0x7F,0x6B,0x63,0x63,0x63,0x00,0x00,0x00,0x00,0x00],
-  'N': [0x66,0x76,0x7E,0x7E,0x6E,0x66,0x66,0x00,0x00,0x00,0x00,0x00],
-  'O': [0x3C,0x66,0x66,0x66,0x66,0x66,0x3C,0x00,0x00,0x00,0x00,0x00],
-  'P': [0x7C,0x66,0x66,0x7C,0x60,0x60,0x60,0x00,0x00,0x00,0x00,0x00],
-  'Q': [0x3C,0x66,0x66,0x66,0x6A,0x6C,0x36,0x00,0x00,0x00,0x00,0x00],
-  'R': [0x7C,0x66,0x66,0x7C,0x6C,0x66,0x66,0x00,0x00,0x00,0x00,0x00],
-  'S': [0x3C,0x66,0x60,0x3C,0x06,0x66,0x3C,0x00,0x00,0x00,0x00,0x00],
-  'T': [0x7E,0x18,0x18,0x18,0x18,0x18,0x18,0x00,0x00,0x00,0x00,0x00],
-  'U': [0x66,0x66,0x66,0x66,0x66,0x66,0x3C,0x00,0x00,0x00,0x00,0x00],
-  'V': [0x66,0x66,0x66,0x66,0x66,0x3C,0x18,0x00,0x00,0x00,0x00,0x00],
-  'W': [0x63,0x63,0x63,0x6B,0x7F,0x77,0x63,0x00,0x00,0x00,0x00,0x00],
-  'X': [0x66,0x66,0x3C,0x18,0x3C,0x66,0x66,0x00,0x00,0x00,0x00,0x00],
-  'Y': [0x66,0x66,0x66,0x3C,0x18,0x18,0x18,0x00,0x00,0x00,0x00,0x00],
-  'Z': [0x7E,0x06,0x0C,0x18,0x30,0x60,0x7E,0x00,0x00,0x00,0x00,0x00],
-  'a': [0x00,0x00,0x3C,0x06,0x3E,0x66,0x3E,0x00,0x00,0x00,0x00,0x00],
-  'b': [0x60,0x60,0x7C,0x66,0x66,0x66,0x7C,0x00,0x00,0x00,0x00,0x00],
-  'c': [0x00,0x00,0x3C,0x66,0x60,0x66,0x3C,0x00,0x00,0x00,0x00,0x00],
-  'd': [0x06,0x06,0x3E,0x66,0x66,0x66,0x3E,0x00,0x00,0x00,0x00,0x00],
-  'e': [0x00,0x00,0x3C,0x66,0x7E,0x60,0x3C,0x00,0x00,0x00,0x00,0x00],
-  'f': [0x1C,0x36,0x30,0x7C,0x30,0x30,0x30,0x00,0x00,0x00,0x00,0x00],
-  'g': [0x00,0x00,0x3E,0x66,0x66,0x3E,0x06,0x3C,0x00,0x00,0x00,0x00],
-  'h': [0x60,0x60,0x7C,0x66,0x66,0x66,0x66,0x00,0x00,0x00,0x00,0x00],
-  'i': [0x18,0x00,0x38,0x18,0x18,0x18,0x3C,0x00,0x00,0x00,0x00,0x00],
-  'j': [0x0C,0x00,0x1C,0x0C,0x0C,0x0C,0x6C,0x38,0x00,0x00,0x00,0x00],
-  'k': [0x60,0x60,0x66,0x6C,0x78,0x6C,0x66,0x00,0x00,0x00,0x00,0x00],
-  'l': [0x38,0x18,0x18,0x18,0x18,0x18,0x3C,0x00,0x00,0x00,0x00,0x00],
-  'm': [0x00,0x00,0x76,0x7F,0x6B,0x6B,0x63,0x00,0x00,0x00,0x00,0x00],
-  'n': [0x00,0x00,0x7C,0x66,0x66,0x66,0x66,0x00,0x00,0x00,0x00,0x00],
-  'o': [0x00,0x00,0x3C,0x66,0x66,0x66,0x3C,0x00,0x00,0x00,0x00,0x00],
-  'p': [0x00,0x00,0x7C,0x66,0x66,0x7C,0x60,0x60,0x00,0x00,0x00,0x00],
-  'q': [0x00,0x00,0x3E,0x66,0x66,0x3E,0x06,0x06,0x00,0x00,0x00,0x00],
-  'r': [0x00,0x00,0x6E,0x76,0x60,0x60,0x60,0x00,0x00,0x00,0x00,0x00],
-  's': [0x00,0x00,0x3E,0x60,0x3C,0x06,0x7C,0x00,0x00,0x00,0x00,0x00],
-  't': [0x30,0x30,0x7C,0x30,0x30,0x36,0x1C,0x00,0x00,0x00,0x00,0x00],
-  'u': [0x00,0x00,0x66,0x66,0x66,0x66,0x3E,0x00,0x00,0x00,0x00,0x00],
-  'v': [0x00,0x00,0x66,0x66,0x66,0x3C,0x18,0x00,0x00,0x00,0x00,0x00],
-  'w': [0x00,0x00,0x63,0x6B,0x6B,0x7F,0x36,0x00,0x00,0x00,0x00,0x00],
-  'x': [0x00,0x00,0x66,0x3C,0x18,0x3C,0x66,0x00,0x00,0x00,0x00,0x00],
-  'y': [0x00,0x00,0x66,0x66,0x66,0x3E,0x06,0x3C,0x00,0x00,0x00,0x00],
-  'z': [0x00,0x00,0x7E,0x0C,0x18,0x30,0x7E,0x00,0x00,0x00,0x00,0x00],
-  ' ': [0x00,0x00,0x00,0x00,0x00,0x00,0x00,0x00,0x00,0x00,0x00,0x00],
-  ':': [0x00,0x18,0x18,0x00,0x18,0x18,0x00,0x00,0x00,0x00,0x00,0x00],
-  '.': [0x00,0x00,0x00,0x00,0x00,0x18,0x18,0x00,0x00,0x00,0x00,0x00],
-  ',': [0x00,0x00,0x00,0x00,0x00,0x18,0x18,0x30,0x00,0x00,0x00,0x00],
-  '-': [0x00,0x00,0x00,0x7E,0x00,0x00,0x00,0x00,0x00,0x00,0x00,0x00],
-  '/': [0x06,0x0C,0x18,0x30,0x60,0x40,0x00,0x00,0x00,0x00,0x00,0x00],
-  '°': [0x1C,0x36,0x36,0x1C,0x00,0x00,0x00,0x00,0x00,0x00,0x00,0x00],
-  '\'': [0x18,0x18,0x30,0x00,0x00,0x00,0x00,0x00,0x00,0x00,0x00,0x00],
-  '(': [0x0C,0x18,0x30,0x30,0x30,0x18,0x0C,0x00,0x00,0x00,0x00,0x00],
-  ')': [0x30,0x18,0x0C,0x0C,0x0C,0x18,0x30,0x00,0x00,0x00,0x00,0x00],
-  '+': [0x00,0x18,0x18,0x7E,0x18,0x18,0x00,0x00,0x00,0x00,0x00,0x00],
-};
+// Flat colors the layout uses; these snap to the panel's levels rather than being dithered
+const UI_COLORS = [INK_BLACK, DARK_GRAY, LIGHT_GRAY, PAPER_WHITE];
+
+// 8x12 bitmap font with Latin accents and common symbols; anything else falls back per grapheme
+const FONT: BitmapFont = parseBDF(FONT_BDF);
 
-function drawChar(pixels: Uint8Array, width: number, x: number, y: number, char: string, color: number, scale: number) {
-  const data = FONT_DATA[char];
-  if (!data) return;
+function drawGlyph(pixels: Uint8Array, width: number, x: number, baseline: number, glyph: Glyph, color: number, scale: number) {
+  const bytesPerRow = Math.ceil(glyph.width / 8);
+  const height = pixels.length / width;
+  // Top row of the bitmap sits (offsetY + height) pixels above the baseline
+  const top = baseline - (glyph.offsetY + glyph.height) * scale;
+  const left = x + glyph.offsetX * scale;
 
-  for (let row = 0; row < 8; row++) {
-    const rowData = data[row];
-    for (let col = 0; col < 8; col++) {
-      if (rowData & (0x80 >> col)) {
+  for (let row = 0; row < glyph.height; row++) {
+    for (let col = 0; col < glyph.width; col++) {
+      if (glyph.bitmap[row * bytesPerRow + (col >> 3)] & (0x80 >> (col & 7))) {
         for (let sy = 0; sy < scale; sy++) {
           for (let sx = 0; sx < scale; sx++) {
-            const px = x + col * scale + sx;
-            const py = y + row * scale + sy;
-            if (px >= 0 && px < width && py >= 0) {
+            const px = left + col * scale + sx;
+            const py = top + row * scale + sy;
+            if (px >= 0 && px < width && py >= 0 && py < height) {
               pixels[py * width + px] = color;
             }
           }
@@ -511,16 +1206,22 @@ function drawChar(pixels: Uint8Array, width: number, x: number, y: number, char:
   }
 }
 
+// y is the top of capital letters; accents on capitals and descenders extend outside the cell
 function drawText(pixels: Uint8Array, width: number, x: number, y: number, text: string, color: number, scale: number = 1) {
+  const baseline = y + FONT.capHeight * scale;
   let cx = x;
-  for (const char of text) {
-    drawChar(pixels, width, cx, y, char, color, scale);
-    cx += 8 * scale;
+  for (const glyph of getGlyphs(FONT, text)) {
+    drawGlyph(pixels, width, cx, baseline, glyph, color, scale);
+    cx += glyph.advance * scale;
   }
 }
 
 function getTextWidth(text: string, scale: number = 1): number {
-  return text.length * 8 * scale;
+  return measureText(FONT, text) * scale;
+}
+
+function wrapTextLines(text: string, maxWidth: number, scale: number, maxLines: number): string[] {
+  return wrapText(FONT, text, Math.floor(maxWidth / scale), maxLines);
 }
 
 function drawCenteredText(pixels: Uint8Array, width: number, y: number, text: string, color: number, scale: number = 1) {
@@ -545,6 +1246,13 @@ function fillRect(pixels: Uint8Array, width: number, height: number, x: number,
   }
 }
 
+function drawRect(pixels: Uint8Array, width: number, height: number, x: number, y: number, w: number, h: number, color: number, thickness: number = 1) {
+  fillRect(pixels, width, height, x, y, w, thickness, color);
+  fillRect(pixels, width, height, x, y + h - thickness, w, thickness, color);
+  fillRect(pixels, width, height, x, y, thickness, h, color);
+  fillRect(pixels, width, height, x + w - thickness, y, thickness, h, color);
+}
+
 function drawHLine(pixels: Uint8Array, width: number, y: number, x1: number, x2: number, color: number, thickness: number = 1) {
   fillRect(pixels, width, 9999, x1, y, x2 - x1, thickness, color);
 }
@@ -566,9 +1274,85 @@ function drawDashedHLine(pixels: Uint8Array, width: number, y: number, x1: numbe
   }
 }
 
-// Weather icons (simple line art, 64x64)
-function drawWeatherIcon(pixels: Uint8Array, width: number, x: number, y: number, code: number) {
-  const size = 48;
+function drawLine(pixels: Uint8Array, width: number, height: number, x1: number, y1: number, x2: number, y2: number, color: number, thickness: number = 1) {
+  // Bresenham, with a square pen for thickness
+  let x = Math.round(x1);
+  let y = Math.round(y1);
+  const xEnd = Math.round(x2);
+  const yEnd = Math.round(y2);
+  const dx = Math.abs(xEnd - x);
+  const dy = -Math.abs(yEnd - y);
+  const sx = x < xEnd ? 1 : -1;
+  const sy = y < yEnd ? 1 : -1;
+  let err = dx + dy;
+
+  while (true) {
+    fillRect(pixels, width, height, x, y, thickness, thickness, color);
+    if (x === xEnd && y === yEnd) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) { err += dy; x += sx; }
+    if (e2 <= dx) { err += dx; y += sy; }
+  }
+}
+
+// Small calendar marker glyph, `size` pixels square
+function drawMarker(pixels: Uint8Array, width: number, height: number, x: number, y: number, shape: MarkerShape, size: number = 8) {
+  const r = size / 2;
+  const cx = x + r - 0.5;
+  const cy = y + r - 0.5;
+
+  for (let py = 0; py < size; py++) {
+    for (let px = 0; px < size; px++) {
+      const dx = x + px - cx;
+      const dy = y + py - cy;
+      const dist = Math.sqrt(dx * dx + dy * dy);
+      const edge = px === 0 || py === 0 || px === size - 1 || py === size - 1;
+      let color = -1;
+
+      switch (shape) {
+        case 'square': color = INK_BLACK; break;
+        case 'gray': color = DARK_GRAY; break;
+        case 'box': if (edge) color = INK_BLACK; break;
+        case 'dot': if (dist <= r) color = INK_BLACK; break;
+        case 'ring': if (dist <= r && dist >= r - 1.5) color = INK_BLACK; break;
+        case 'diamond': if (Math.abs(dx) + Math.abs(dy) <= r) color = INK_BLACK; break;
+      }
+
+      if (color >= 0) fillRect(pixels, width, height, x + px, y + py, 1, 1, color);
+    }
+  }
+}
+
+const WEATHER_ICON_SIZE = 48;
+
+// Weather icons (simple line art, 48x48). Smaller sizes are drawn at full size
+// and shrunk, keeping the darkest pixel of each block so thin lines survive.
+function drawWeatherIcon(pixels: Uint8Array, width: number, x: number, y: number, code: number, targetSize: number = WEATHER_ICON_SIZE) {
+  const size = WEATHER_ICON_SIZE;
+
+  if (targetSize !== size) {
+    const scratch = new Uint8Array(size * size).fill(PAPER_WHITE);
+    drawWeatherIcon(scratch, size, 0, 0, code);
+    for (let ty = 0; ty < targetSize; ty++) {
+      const sy0 = Math.floor(ty * size / targetSize);
+      const sy1 = Math.max(sy0 + 1, Math.floor((ty + 1) * size / targetSize));
+      for (let tx = 0; tx < targetSize; tx++) {
+        const sx0 = Math.floor(tx * size / targetSize);
+        const sx1 = Math.max(sx0 + 1, Math.floor((tx + 1) * size / targetSize));
+        let darkest = PAPER_WHITE;
+        for (let sy = sy0; sy < sy1; sy++) {
+          for (let sx = sx0; sx < sx1; sx++) {
+            darkest = Math.min(darkest, scratch[sy * size + sx]);
+          }
+        }
+        const px = x + tx;
+        if (darkest < PAPER_WHITE && px >= 0 && px < width && y + ty >= 0) {
+          pixels[(y + ty) * width + px] = darkest;
+        }
+      }
+    }
+    return;
+  }
 
   if (code === 0 || code === 1) {
     // Sun - circle with rays
@@ -692,188 +1476,1636 @@ function drawCloudShape(pixels: Uint8Array, width: number, x: number, y: number,
   drawHLine(pixels, width, Math.round(y + h * 0.75), Math.round(x + w * 0.1), Math.round(x + w * 0.95), INK_BLACK, 1);
 }
 
-// ============================================================================
-// Main Rendering
-// ============================================================================
-
-function renderDisplay(
+// Hourly chart: precipitation probability bars with the temperature line on top
+function drawHourlyChart(
+  pixels: Uint8Array,
   width: number,
   height: number,
-  weather: WeatherData,
-  days: DayEvents[],
-  generatedAt: Date
-): Uint8Array {
-  const pixels = new Uint8Array(width * height);
-  pixels.fill(PAPER_WHITE);
+  x: number,
+  y: number,
+  w: number,
+  h: number,
+  hours: HourlyForecast[]
+) {
+  const labelHeight = 12;
+  const plotTop = y + 12; // Room for temperature labels above the line
+  const plotHeight = h - labelHeight - 12;
+  const plotBottom = plotTop + plotHeight;
+  const slot = w / hours.length;
+
+  const temps = hours.map((hour) => hour.temperature);
+  const minTemp = Math.min(...temps);
+  const tempRange = Math.max(1, Math.max(...temps) - minTemp);
+  const tempY = (temp: number) => Math.round(plotBottom - 4 - (temp - minTemp) / tempRange * (plotHeight - 8));
+
+  // Precipitation bars
+  hours.forEach((hour, i) => {
+    const probability = hour.precipitationProbability ?? 0;
+    const barHeight = Math.round(probability / 100 * plotHeight);
+    if (barHeight > 0) {
+      const barX = Math.round(x + i * slot + 1);
+      fillRect(pixels, width, height, barX, plotBottom - barHeight, Math.max(1, Math.round(slot) - 2), barHeight, LIGHT_GRAY);
+    }
+  });
 
-  const MARGIN = 24;
-  const contentWidth = width - MARGIN * 2;
-  const FOOTER_HEIGHT = 50;
-  const maxContentY = height - FOOTER_HEIGHT;
+  // Baseline
+  drawHLine(pixels, width, plotBottom, x, x + w, DARK_GRAY, 1);
 
-  // ========== WEATHER SECTION (0-180px) ==========
-  const weatherSectionHeight = 180;
+  // Temperature line through the middle of each hour slot
+  for (let i = 1; i < hours.length; i++) {
+    const x1 = x + (i - 0.5) * slot;
+    const x2 = x + (i + 0.5) * slot;
+    drawLine(pixels, width, height, x1, tempY(temps[i - 1]), x2, tempY(temps[i]), INK_BLACK, 2);
+  }
 
-  // Temperature (huge, left side)
-  const tempStr = `${weather.temperature}`;
-  drawText(pixels, width, MARGIN, 30, tempStr, INK_BLACK, 10);
-  // Degree symbol
-  const tempWidth = getTextWidth(tempStr, 10);
-  drawText(pixels, width, MARGIN + tempWidth, 30, '°', INK_BLACK, 4);
+  // Hour ticks and labels every 3 hours, with the temperature at that hour
+  hours.forEach((hour, i) => {
+    const hourOfDay = parseInt(hour.time.slice(11, 13), 10);
+    if (hourOfDay % 3 !== 0) return;
+    const cx = Math.round(x + (i + 0.5) * slot);
+    fillRect(pixels, width, height, cx, plotBottom, 1, 3, DARK_GRAY);
 
-  // Right side: weather icon + details (right-aligned within margin)
-  const rightMargin = width - MARGIN;
-  const iconSize = 48;
-  const textStartX = rightMargin - 140; // Leave room for text
+    const hourLabel = hour.time.slice(11, 13);
+    drawText(pixels, width, cx - getTextWidth(hourLabel, 1) / 2, plotBottom + 5, hourLabel, DARK_GRAY, 1);
 
-  // Weather icon (to the left of text)
-  drawWeatherIcon(pixels, width, textStartX - iconSize - 8, 20, weather.conditionCode);
+    const tempLabel = `${hour.temperature}`;
+    drawText(pixels, width, cx - getTextWidth(tempLabel, 1) / 2, tempY(hour.temperature) - 12, tempLabel, INK_BLACK, 1);
+  });
+}
 
-  // Location (right-aligned)
-  drawRightAlignedText(pixels, width, 28, 'BROOKLYN NY', INK_BLACK, 2, MARGIN);
+// Timed events that finished before the display was generated
+function hasEnded(event: CalendarEvent, now: Date): boolean {
+  return !event.isAllDay && event.end.getTime() <= now.getTime();
+}
 
-  // Condition (right-aligned, truncate if needed)
-  const conditionText = weather.condition.length > 12 ? weather.condition.slice(0, 11) + '.' : weather.condition;
-  drawRightAlignedText(pixels, width, 60, conditionText, DARK_GRAY, 2, MARGIN);
+function isInProgress(event: CalendarEvent, now: Date): boolean {
+  return !event.isAllDay && event.start.getTime() <= now.getTime() && event.end.getTime() > now.getTime();
+}
 
-  // Hi/Lo (right-aligned)
-  const hiLoStr = `H:${weather.temperatureHigh} L:${weather.temperatureLow}`;
-  drawRightAlignedText(pixels, width, 92, hiLoStr, DARK_GRAY, 2, MARGIN);
+// Small label under the start time: "–09:30" or "30m", depending on the configured style
+function getEndLabel(event: CalendarEvent, timezone: string, settings: LocaleSettings, style: EventEndStyle): string {
+  const minutes = Math.round((event.end.getTime() - event.start.getTime()) / 60000);
+  // Multi-day events carry their start and end in the time column of the first and last day
+  if (event.isAllDay || event.span || style === 'none' || minutes <= 0) return '';
+  return style === 'duration'
+    ? formatDuration(minutes, settings)
+    : `\u2013${formatTime(event.end, timezone, settings)}`;
+}
 
-  // Weather section bottom border
-  drawHLine(pixels, width, weatherSectionHeight, MARGIN, width - MARGIN, INK_BLACK, 3);
+// Remaining hours of today (at least a few, spilling into tomorrow late in the day)
+function getChartHours(hourly: HourlyForecast[], now: Date, timezone: string): HourlyForecast[] {
+  const wall = toWallTime(now, timezone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  const today = `${wall.year}-${pad(wall.month)}-${pad(wall.day)}`;
+  const currentHour = `${today}T${pad(wall.hour)}:00`;
+
+  const start = hourly.findIndex((hour) => hour.time >= currentHour);
+  if (start < 0) return [];
+  const remainingToday = hourly.slice(start).filter((hour) => hour.time.startsWith(today)).length;
+  return hourly.slice(start, start + Math.max(remainingToday, 6));
+}
 
-  // ========== DATE HEADER (180-250px) ==========
-  const now = generatedAt;
-  const monthNames = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+// ============================================================================
+// Main Rendering
+// ============================================================================
 
-  const dateStr = `${DAY_NAMES[now.getDay()]}, ${monthNames[now.getMonth()]} ${now.getDate()}`;
-  drawCenteredText(pixels, width, weatherSectionHeight + 20, dateStr, INK_BLACK, 3);
+// Sizes derived from the panel: a 480px short side gives 24px margins and the base font scales
+interface LayoutMetrics {
+  margin: number;
+  scale: number;  // Multiplier for font scales and fixed spacing on larger panels
+  landscape: boolean;
+}
 
-  // Date header bottom border
-  const dateSectionEnd = weatherSectionHeight + 70;
-  drawHLine(pixels, width, dateSectionEnd, MARGIN, width - MARGIN, INK_BLACK, 2);
+function getLayoutMetrics(width: number, height: number): LayoutMetrics {
+  const shortSide = Math.min(width, height);
+  return {
+    margin: Math.max(12, Math.round(shortSide / 20)),
+    scale: Math.max(1, Math.floor(shortSide / 480)),
+    landscape: width > height,
+  };
+}
 
-  // ========== CALENDAR EVENTS ==========
-  let eventY = dateSectionEnd + 20;
-  const eventRowHeight = 45;
-  const dayHeaderHeight = 40;
-  const timeColumnWidth = 100;
+// Optional parts of the layout
+interface RenderOptions {
+  view: ViewMode;
+  showHourlyChart: boolean;
+  locale: LocaleSettings;
+  titleLines: number;  // Long event titles wrap onto up to this many lines
+  eventEnd: EventEndStyle;
+  showLocations: boolean;
+  pastEvents: 'dim' | 'hide';  // Today's events that have already ended
+  timelineHours: TimelineHours;
+  layout: LayoutNode | null;  // Widget layout for the agenda view; null picks the default for the panel's shape
+}
 
-  // Render days until we run out of space
-  for (let dayIndex = 0; dayIndex < days.length; dayIndex++) {
-    const day = days[dayIndex];
-    const isFirstDay = dayIndex === 0;
-    const isToday = day.label === 'TODAY';
+// Overall layout: weather plus agenda, a month calendar, or today's hours as a timeline
+type ViewMode = 'agenda' | 'month' | 'timeline';
 
-    // Check if we have space for at least the header + 1 event (or "No events")
-    const minSpaceNeeded = dayHeaderHeight + eventRowHeight;
-    if (eventY + minSpaceNeeded > maxContentY) {
-      break; // No more space
-    }
+function parseViewMode(value: string | null | undefined): ViewMode | undefined {
+  return value === 'agenda' || value === 'month' || value === 'timeline' ? value : undefined;
+}
 
-    // Add separator before non-first days
-    if (!isFirstDay) {
-      // Dashed separator
-      drawDashedHLine(pixels, width, eventY, MARGIN, width - MARGIN, DARK_GRAY, 6, 4);
-      eventY += 15;
-    }
+// How an event's end is shown under its start time
+type EventEndStyle = 'range' | 'duration' | 'none';
 
-    // Day label (TODAY is black/bold, others are gray)
-    const labelColor = isToday ? INK_BLACK : DARK_GRAY;
-    drawText(pixels, width, MARGIN, eventY, day.label, labelColor, 2);
-    eventY += dayHeaderHeight - 5;
+function parseEventEndStyle(value: string | null | undefined): EventEndStyle | undefined {
+  return value === 'range' || value === 'duration' || value === 'none' ? value : undefined;
+}
+
+function parseFlag(value: string | null | undefined): boolean | undefined {
+  if (value === '1' || value === 'true') return true;
+  if (value === '0' || value === 'false') return false;
+  return undefined;
+}
+
+const DEFAULT_TITLE_LINES = 2;
+const MAX_TITLE_LINES = 4;
+
+function parseTitleLines(value: string | null | undefined): number | undefined {
+  const lines = parseInt(value ?? '', 10);
+  return lines >= 1 && lines <= MAX_TITLE_LINES ? lines : undefined;
+}
+
+// Hours covered by the timeline ruler, e.g. 7 to 20 for 07:00-20:00
+interface TimelineHours {
+  start: number;
+  end: number;
+}
+
+const DEFAULT_TIMELINE_HOURS: TimelineHours = { start: 7, end: 20 };
+
+function parseTimelineHours(value: string | null | undefined): TimelineHours | undefined {
+  const match = value?.match(/^(\d{1,2})\s*-\s*(\d{1,2})$/);
+  if (!match) return undefined;
+  const start = parseInt(match[1], 10);
+  const end = parseInt(match[2], 10);
+  return start < end && end <= 24 ? { start, end } : undefined;
+}
+
+const DEFAULT_RENDER_OPTIONS: RenderOptions = {
+  view: 'agenda',
+  showHourlyChart: false,
+  locale: resolveLocaleSettings(null, null),
+  titleLines: DEFAULT_TITLE_LINES,
+  eventEnd: 'range',
+  showLocations: true,
+  pastEvents: 'dim',
+  timelineHours: DEFAULT_TIMELINE_HOURS,
+  layout: null,
+};
+
+// Everything a widget may draw from, for one render
+interface WidgetContext {
+  pixels: Uint8Array;
+  width: number;
+  height: number;
+  scale: number;
+  weather: WeatherData;
+  days: DayEvents[];
+  generatedAt: Date;
+  location: Location;
+  calendarMarkers: MarkerShape[];
+  calendarStatus: CalendarStatus;
+  options: RenderOptions;
+}
+
+/**
+ * A piece of the screen. measure returns the height the widget wants at a given width;
+ * widgets without it fill whatever space their container has left.
+ */
+interface Widget {
+  measure?: (context: WidgetContext, width: number, options: RenderOptions) => number;
+  draw: (context: WidgetContext, area: Rect, options: RenderOptions) => void;
+}
+
+const WIDGETS: { [type: string]: Widget } = {
+  // Portrait weather: temperature and details, forecast strip, optional hourly chart
+  'weather': {
+    measure: (context, _width, options) => getWeatherBandHeight(context, options),
+    draw: (context, area, options) => drawWeatherBand(context, area, options),
+  },
+  // Landscape weather: the same information stacked in a narrow column
+  'weather-column': {
+    draw: (context, area, options) => drawWeatherColumn(context, area, options),
+  },
+  'chart': {
+    measure: (context) => 96 * context.scale,
+    draw: (context, area) => {
+      const hours = getChartHours(context.weather.hourly, context.generatedAt, context.location.timezone);
+      if (hours.length > 1) {
+        drawHourlyChart(context.pixels, context.width, context.height, area.x, area.y, area.width, area.height - 6 * context.scale, hours);
+      }
+    },
+  },
+  'date': {
+    measure: (context) => 70 * context.scale,
+    draw: (context, area, options) => drawDateHeader(context, area, options),
+  },
+  'agenda': {
+    draw: (context, area, options) => drawAgenda(context, area, options),
+  },
+  'footer': {
+    measure: (context) => 50 * context.scale,
+    draw: (context, area, options) => drawFooter(context.pixels, context.width, context.height, area, context.generatedAt,
+      context.location, context.calendarStatus, options.locale, context.scale),
+  },
+  // Empty space; give it a size in the layout
+  'spacer': {
+    measure: () => 0,
+    draw: () => {},
+  },
+  // Horizontal rule across the area
+  'rule': {
+    measure: (context) => 2 * context.scale,
+    draw: (context, area) => drawHLine(context.pixels, context.width, area.y, area.x, area.x + area.width, INK_BLACK, area.height),
+  },
+};
+
+const WIDGET_TYPES = Object.keys(WIDGETS);
+
+// The "Utilitarian Print" design: weather band, date, agenda and footer stacked top to bottom
+const PORTRAIT_LAYOUT: LayoutNode = {
+  direction: 'column',
+  children: [
+    { widget: 'weather' },
+    { widget: 'date' },
+    { widget: 'agenda', grow: true },
+    { widget: 'footer' },
+  ],
+};
+
+// Wide panels put the weather in a column beside the date and agenda
+const LANDSCAPE_LAYOUT: LayoutNode = {
+  direction: 'column',
+  children: [
+    {
+      direction: 'row',
+      divider: true,
+      children: [
+        { widget: 'weather-column', size: 0.4 },
+        { direction: 'column', children: [{ widget: 'date' }, { widget: 'agenda', grow: true }] },
+      ],
+    },
+    { widget: 'footer' },
+  ],
+};
+
+function getLayout(value: string | undefined): LayoutNode | null {
+  if (!value) return null;
+  try {
+    return parseLayout(value, WIDGET_TYPES);
+  } catch (error) {
+    console.error('Invalid LAYOUT, using the default:', error);
+    return null;
+  }
+}
+
+// Widget options override the render options of the same name, e.g. { "chart": true, "lines": 1 }
+function applyWidgetOptions(options: RenderOptions, widgetOptions: WidgetOptions = {}): RenderOptions {
+  const value = (name: string) => widgetOptions[name] === undefined ? undefined : String(widgetOptions[name]);
+  const past = value('past');
+  return {
+    ...options,
+    showHourlyChart: parseFlag(value('chart')) ?? options.showHourlyChart,
+    titleLines: parseTitleLines(value('lines')) ?? options.titleLines,
+    eventEnd: parseEventEndStyle(value('end')) ?? options.eventEnd,
+    showLocations: parseFlag(value('locations')) ?? options.showLocations,
+    pastEvents: past === 'hide' || past === 'dim' ? past : options.pastEvents,
+  };
+}
+
+function renderDisplay(
+  width: number,
+  height: number,
+  weather: WeatherData,
+  days: DayEvents[],
+  generatedAt: Date,
+  location: Location,
+  calendarMarkers: MarkerShape[] = [],
+  calendarStatus: CalendarStatus = { state: 'live' },
+  options: RenderOptions = DEFAULT_RENDER_OPTIONS
+): Uint8Array {
+  const pixels = new Uint8Array(width * height);
+  pixels.fill(PAPER_WHITE);
+
+  const { margin, scale, landscape } = getLayoutMetrics(width, height);
+  const layout = options.layout ?? (landscape ? LANDSCAPE_LAYOUT : PORTRAIT_LAYOUT);
+  const context: WidgetContext = { pixels, width, height, scale, weather, days, generatedAt, location, calendarMarkers, calendarStatus, options };
+
+  const arranged = arrangeLayout(layout, { x: 0, y: 0, width, height }, margin, scale, (node, widgetWidth) => {
+    const widget = WIDGETS[node.widget];
+    return widget.measure ? widget.measure(context, widgetWidth, applyWidgetOptions(options, node.options)) : null;
+  });
+
+  for (const divider of arranged.dividers) {
+    fillRect(pixels, width, height, divider.x, divider.y, divider.width, divider.height, INK_BLACK);
+  }
+  for (const { node, area } of arranged.widgets) {
+    WIDGETS[node.widget].draw(context, area, applyWidgetOptions(options, node.options));
+  }
+
+  return pixels;
+}
+
+// Portrait weather section: 180px, +96px with the hourly chart
+function getWeatherBandHeight(context: WidgetContext, options: RenderOptions): number {
+  const { weather, generatedAt, location, scale } = context;
+  const chartHours = options.showHourlyChart ? getChartHours(weather.hourly, generatedAt, location.timezone) : [];
+  return 180 * scale + (chartHours.length > 1 ? 96 * scale : 0);
+}
+
+function drawWeatherBand(context: WidgetContext, area: Rect, options: RenderOptions) {
+  const { pixels, width, height, scale, weather, generatedAt, location } = context;
+  const settings = options.locale;
+  const left = area.x;
+  const top = area.y;
+  const contentWidth = area.width;
+  const rightInset = width - (area.x + area.width);  // Right-aligned text ends here
+  const chartHours = options.showHourlyChart ? getChartHours(weather.hourly, generatedAt, location.timezone) : [];
+  const chartHeight = chartHours.length > 1 ? 96 * scale : 0;
+  const weatherSectionHeight = top + 180 * scale + chartHeight;
+
+  // Temperature (huge, left side)
+  const tempStr = `${weather.temperature}`;
+  drawText(pixels, width, left, top + 30 * scale, tempStr, INK_BLACK, 10 * scale);
+  // Degree symbol
+  const tempWidth = getTextWidth(tempStr, 10 * scale);
+  drawText(pixels, width, left + tempWidth, top + 30 * scale, '°', INK_BLACK, 4 * scale);
+
+  // Right side: weather icon + details (right-aligned within margin)
+  const rightMargin = area.x + area.width;
+  const iconSize = WEATHER_ICON_SIZE * scale;
+  const textStartX = rightMargin - 140 * scale; // Leave room for text
+
+  // Weather icon (to the left of text)
+  drawWeatherIcon(pixels, width, textStartX - iconSize - 8 * scale, top + 20 * scale, weather.conditionCode, iconSize);
+
+  // Location (right-aligned, between the icon and the margin): smaller text if it doesn't fit, then truncated
+  if (location.label) {
+    const labelSpace = rightMargin - textStartX + 4 * scale;
+    const labelScale = getTextWidth(location.label, 2 * scale) <= labelSpace ? 2 * scale : scale;
+    const labelText = wrapTextLines(location.label, labelSpace, labelScale, 1)[0] ?? '';
+    const labelY = top + 28 * scale + Math.floor((2 * scale - labelScale) * FONT.capHeight / 2);
+    drawRightAlignedText(pixels, width, labelY, labelText, INK_BLACK, labelScale, rightInset);
+  }
+
+  // Condition (right-aligned, truncate if needed)
+  const condition = getConditionText(weather.conditionCode, weather.condition, settings);
+  const conditionText = condition.length > 12 ? condition.slice(0, 11) + '.' : condition;
+  drawRightAlignedText(pixels, width, top + 60 * scale, conditionText, DARK_GRAY, 2 * scale, rightInset);
+
+  // Hi/Lo (right-aligned)
+  const hiLoStr = `H:${weather.temperatureHigh} L:${weather.temperatureLow}`;
+  drawRightAlignedText(pixels, width, top + 92 * scale, hiLoStr, DARK_GRAY, 2 * scale, rightInset);
+
+  // Forecast strip: the next few days under the temperature
+  const upcoming = weather.daily.slice(1);
+  const forecastColumns = Math.min(upcoming.length, Math.max(3, Math.min(5, Math.floor(contentWidth / (144 * scale)))));
+  if (forecastColumns > 0) {
+    const columnWidth = Math.floor(contentWidth / forecastColumns);
+    const stripY = top + 122 * scale;
+    const smallIconSize = 32 * scale;
+    for (let i = 0; i < forecastColumns; i++) {
+      const day = upcoming[i];
+      const colX = left + i * columnWidth;
+      const textX = colX + smallIconSize + 6 * scale;
+      drawWeatherIcon(pixels, width, colX, stripY + 4 * scale, day.conditionCode, smallIconSize);
+      drawText(pixels, width, textX, stripY, getForecastWeekday(day, settings), INK_BLACK, 2 * scale);
+      drawText(pixels, width, textX, stripY + 18 * scale, `${day.high}/${day.low}`, DARK_GRAY, 2 * scale);
+      if (day.precipitationProbability !== null && day.precipitationProbability > 0) {
+        drawText(pixels, width, textX, stripY + 36 * scale, `${Math.round(day.precipitationProbability)}%`, DARK_GRAY, scale);
+      }
+    }
+  }
+
+  // Hourly chart for the rest of today
+  if (chartHeight > 0) {
+    drawHourlyChart(pixels, width, height, left, top + 176 * scale, contentWidth, chartHeight - 6 * scale, chartHours);
+  }
+
+  // Weather section bottom border
+  drawHLine(pixels, width, weatherSectionHeight, left, left + contentWidth, INK_BLACK, 3 * scale);
+}
+
+// Landscape weather column: temperature, details and a forecast list stacked top to bottom
+function drawWeatherColumn(context: WidgetContext, area: Rect, options: RenderOptions) {
+  const { pixels, width, height, scale, weather, generatedAt, location } = context;
+  const settings = options.locale;
+  const right = area.x + area.width;
+  const bottom = area.y + area.height;
+
+  // Temperature, shrunk to fit narrow columns, with the condition icon in the top right corner when there's room
+  const tempStr = `${weather.temperature}`;
+  let tempScale = 10 * scale;
+  while (tempScale > 4 * scale && getTextWidth(tempStr, tempScale) + getTextWidth('°', 4 * scale) > area.width) tempScale -= scale;
+  const tempWidth = getTextWidth(tempStr, tempScale);
+  drawText(pixels, width, area.x, area.y + 30 * scale, tempStr, INK_BLACK, tempScale);
+  drawText(pixels, width, area.x + tempWidth, area.y + 30 * scale, '°', INK_BLACK, 4 * scale);
+  const iconSize = WEATHER_ICON_SIZE * scale;
+  if (tempWidth + getTextWidth('°', 4 * scale) + 8 * scale + iconSize <= area.width) {
+    drawWeatherIcon(pixels, width, right - iconSize, area.y + 20 * scale, weather.conditionCode, iconSize);
+  }
+
+  // Place, condition and high/low, one line each
+  let y = area.y + 124 * scale;
+  const condition = getConditionText(weather.conditionCode, weather.condition, settings);
+  const details: [string, number][] = [
+    [location.label ?? '', INK_BLACK],
+    [condition, DARK_GRAY],
+    [`H:${weather.temperatureHigh} L:${weather.temperatureLow}`, DARK_GRAY],
+  ];
+  for (const [text, color] of details) {
+    if (!text) continue;
+    drawText(pixels, width, area.x, y, wrapTextLines(text, area.width, 2 * scale, 1)[0] ?? '', color, 2 * scale);
+    y += 26 * scale;
+  }
+
+  // Hourly chart at the bottom of the column; forecast rows fill the space above it
+  const chartHours = options.showHourlyChart ? getChartHours(weather.hourly, generatedAt, location.timezone) : [];
+  const chartHeight = chartHours.length > 1 ? 96 * scale : 0;
+  const rowHeight = 36 * scale;
+  const smallIconSize = 32 * scale;
+  y += 2 * scale;
+
+  const upcoming = weather.daily.slice(1);
+  const rows = Math.min(upcoming.length, 3, Math.max(0, Math.floor((bottom - 10 * scale - chartHeight - y) / rowHeight)));
+  for (let i = 0; i < rows; i++) {
+    const day = upcoming[i];
+    const textX = area.x + smallIconSize + 8 * scale;
+    const textY = y + 9 * scale;
+    drawWeatherIcon(pixels, width, area.x, y, day.conditionCode, smallIconSize);
+    drawText(pixels, width, textX, textY, getForecastWeekday(day, settings), INK_BLACK, 2 * scale);
+    const hiLoX = textX + getTextWidth('MMMM', 2 * scale);
+    const hiLo = `${day.high}/${day.low}`;
+    drawText(pixels, width, hiLoX, textY, hiLo, DARK_GRAY, 2 * scale);
+    const precipitation = `${Math.round(day.precipitationProbability ?? 0)}%`;
+    const precipitationX = right - getTextWidth(precipitation, scale);
+    if ((day.precipitationProbability ?? 0) > 0 && precipitationX >= hiLoX + getTextWidth(hiLo, 2 * scale) + 4 * scale) {
+      drawText(pixels, width, precipitationX, textY + 4 * scale, precipitation, DARK_GRAY, scale);
+    }
+    y += rowHeight;
+  }
+
+  if (chartHeight > 0 && y + 8 * scale + chartHeight <= bottom) {
+    drawHourlyChart(pixels, width, height, area.x, y + 8 * scale, area.width, chartHeight - 6 * scale, chartHours);
+  }
+}
+
+// Three-letter weekday for a forecast day
+function getForecastWeekday(day: DailyForecast, settings: LocaleSettings): string {
+  const [year, month, dayOfMonth] = day.date.split('-').map((part) => parseInt(part, 10));
+  return formatWeekday(new Date(Date.UTC(year, month - 1, dayOfMonth)), 'UTC', settings, 'short').slice(0, 3);
+}
+
+// Today's date centered over a rule at the bottom of the area
+function drawDateHeader(context: WidgetContext, area: Rect, options: RenderOptions) {
+  const { pixels, width, scale, generatedAt, location } = context;
+  const dateStr = formatHeaderDate(generatedAt, location.timezone, options.locale);
+  const dateWidth = getTextWidth(dateStr, 3 * scale);
+  drawText(pixels, width, area.x + Math.floor((area.width - dateWidth) / 2), area.y + 20 * scale, dateStr, INK_BLACK, 3 * scale);
+  drawHLine(pixels, width, area.y + area.height, area.x, area.x + area.width, INK_BLACK, 2 * scale);
+}
+
+// Day-by-day event list, filling the area top to bottom
+function drawAgenda(context: WidgetContext, area: Rect, options: RenderOptions) {
+  const { pixels, width, height, scale, days, generatedAt, location, calendarMarkers } = context;
+  const settings = options.locale;
+  const strings = settings.strings;
+  const left = area.x;
+  const right = area.x + area.width;
+  const contentWidth = area.width;
+  const maxContentY = area.y + area.height;
+
+  // ========== CALENDAR EVENTS ==========
+  let eventY = area.y + 20 * scale;
+  const eventRowHeight = 45 * scale;
+  const titleLineHeight = 22 * scale;  // Each extra wrapped title line adds this much to the row
+  const locationLineHeight = 14 * scale;
+  const dayHeaderHeight = 40 * scale;
+
+  // Past events are dimmed below, or dropped here; the in-progress and next events get highlighted
+  const agenda = options.pastEvents === 'hide'
+    ? days.map((day) => ({ ...day, events: day.events.filter((event) => !hasEnded(event, generatedAt)) }))
+    : days;
+  const nextEvent = agenda.flatMap((day) => day.events).find((event) => !event.isAllDay
+    && event.start.getTime() > generatedAt.getTime() && event.responseStatus !== 'declined');
+
+  // Wide enough for the longest time label (12-hour times and "All Day" need more room)
+  const longestTime = Math.max(0, ...agenda.flatMap((day) => day.events.map((event) => Math.max(
+    getTextWidth(event.time, 2 * scale),
+    getTextWidth(getEndLabel(event, location.timezone, settings, options.eventEnd), scale)
+  ))));
+  const timeColumnWidth = Math.max(100 * scale, longestTime + 16 * scale);
+
+  // Render days until we run out of space
+  for (let dayIndex = 0; dayIndex < agenda.length; dayIndex++) {
+    const day = agenda[dayIndex];
+    const isFirstDay = dayIndex === 0;
+    const isToday = day.isToday;
+
+    // Check if we have space for at least the header + 1 event (or "No events")
+    const minSpaceNeeded = dayHeaderHeight + eventRowHeight;
+    if (eventY + minSpaceNeeded > maxContentY) {
+      break; // No more space
+    }
+
+    // Add separator before non-first days
+    if (!isFirstDay) {
+      // Dashed separator
+      drawDashedHLine(pixels, width, eventY, left, right, DARK_GRAY, 6 * scale, 4 * scale);
+      eventY += 15 * scale;
+    }
+
+    // Day label (TODAY is black/bold, others are gray)
+    const labelColor = isToday ? INK_BLACK : DARK_GRAY;
+    drawText(pixels, width, left, eventY, day.label, labelColor, 2 * scale);
+    eventY += dayHeaderHeight - 5 * scale;
 
     // Handle empty day
     if (day.events.length === 0) {
-      drawText(pixels, width, MARGIN + timeColumnWidth, eventY, 'No events', LIGHT_GRAY, 2);
+      drawText(pixels, width, left + timeColumnWidth, eventY, strings.noEvents, LIGHT_GRAY, 2 * scale);
       eventY += eventRowHeight;
       continue;
     }
 
     // Render events for this day
     for (let eventIndex = 0; eventIndex < day.events.length; eventIndex++) {
+      const event = day.events[eventIndex];
+      // A multi-day event is only "now" on today's copy
+      const inProgress = isInProgress(event, generatedAt) && (isToday || !event.span);
+      const dimmed = hasEnded(event, generatedAt) || event.responseStatus === 'declined';
+      let eventColor = isToday ? INK_BLACK : DARK_GRAY;
+      if (dimmed) eventColor = LIGHT_GRAY;
+      if (inProgress) eventColor = PAPER_WHITE;
+      const detailColor = inProgress ? PAPER_WHITE : dimmed ? LIGHT_GRAY : DARK_GRAY;
+
+      // Location goes on its own small line under the title, if there's room for it
+      const maxTitleWidth = contentWidth - timeColumnWidth - 10 * scale;
+      const showLocation = options.showLocations && !!event.location && eventY + 30 * scale + locationLineHeight <= maxContentY;
+      const detailHeight = showLocation ? locationLineHeight : 0;
+
+      // Wrap the title, dropping lines that wouldn't fit above the footer
+      const linesThatFit = Math.floor((maxContentY - eventY - 30 * scale - detailHeight) / titleLineHeight) + 1;
+      const title = event.span ? `${event.title} ${strings.daySpan(event.span.day, event.span.days)}` : event.title;
+      const titleLines = wrapTextLines(title, maxTitleWidth, 2 * scale, Math.min(options.titleLines, linesThatFit));
+      const extraHeight = Math.max(0, titleLines.length - 1) * titleLineHeight + detailHeight;
+      const endLabel = getEndLabel(event, location.timezone, settings, options.eventEnd);
+      const baseHeight = (endLabel ? 30 : 26) * scale;  // Room for the end time under the start time
+
       // Check if we have space for this event
-      if (eventY + 30 > maxContentY) {
+      if (linesThatFit < 1) {
         // Show "+N more" if we're cutting off events
         const remaining = day.events.length - eventIndex;
         if (remaining > 0) {
-          drawText(pixels, width, MARGIN, eventY, `+${remaining} more...`, LIGHT_GRAY, 2);
-          eventY += 30;
+          drawText(pixels, width, left, eventY, strings.more(remaining), LIGHT_GRAY, 2 * scale);
+          eventY += 30 * scale;
         }
         break;
       }
 
-      const event = day.events[eventIndex];
-      const eventColor = isToday ? INK_BLACK : DARK_GRAY;
+      // Happening now: inverted bar; up next: outlined
+      const highlightX = left - 4 * scale;
+      const highlightY = eventY - 6 * scale;
+      const highlightHeight = baseHeight + 2 * scale + extraHeight;
+      if (inProgress) {
+        fillRect(pixels, width, height, highlightX, highlightY, contentWidth + 8 * scale, highlightHeight, INK_BLACK);
+      } else if (event === nextEvent) {
+        drawRect(pixels, width, height, highlightX, highlightY, contentWidth + 8 * scale, highlightHeight, INK_BLACK, 2 * scale);
+      }
+
+      // Time, with the end time or duration underneath
+      drawText(pixels, width, left, eventY, event.time, eventColor, 2 * scale);
+      if (endLabel) {
+        drawText(pixels, width, left, eventY + 16 * scale, endLabel, detailColor, scale);
+      }
 
-      // Time
-      drawText(pixels, width, MARGIN, eventY, event.time, eventColor, 2);
+      // Calendar marker in the left margin (only needed to tell several calendars apart)
+      if (calendarMarkers.length > 1) {
+        const marker = calendarMarkers[event.source] ?? calendarMarkers[0];
+        drawMarker(pixels, width, height, left - 14 * scale, eventY + 3 * scale, marker, 8 * scale);
+      }
+
+      // Event title, one line per wrapped segment; declined invitations are struck through
+      const titleX = left + timeColumnWidth;
+      titleLines.forEach((line, lineIndex) => {
+        const lineY = eventY + lineIndex * titleLineHeight;
+        drawText(pixels, width, titleX, lineY, line, eventColor, 2 * scale);
+        if (event.responseStatus === 'declined') {
+          drawHLine(pixels, width, lineY + 7 * scale, titleX, titleX + getTextWidth(line, 2 * scale), eventColor, 2 * scale);
+        }
+      });
 
-      // Event title (truncate if needed)
-      const maxTitleWidth = contentWidth - timeColumnWidth - 10;
-      let title = event.title;
-      while (getTextWidth(title, 2) > maxTitleWidth && title.length > 3) {
-        title = title.slice(0, -4) + '...';
+      if (showLocation) {
+        const locationY = eventY + (titleLines.length - 1) * titleLineHeight + 20 * scale;
+        const locationText = wrapTextLines(event.location!, maxTitleWidth, scale, 1)[0] ?? '';
+        drawText(pixels, width, titleX, locationY, locationText, detailColor, scale);
       }
-      drawText(pixels, width, MARGIN + timeColumnWidth, eventY, title, eventColor, 2);
 
       // Subtle divider (only between events, not after last)
-      eventY += 26;
+      eventY += baseHeight + extraHeight;
       if (eventIndex < day.events.length - 1 && eventY + eventRowHeight <= maxContentY) {
-        drawHLine(pixels, width, eventY, MARGIN, width - MARGIN, LIGHT_GRAY, 1);
+        drawHLine(pixels, width, eventY, left, right, LIGHT_GRAY, scale);
       }
-      eventY += eventRowHeight - 26;
+      eventY += eventRowHeight - 26 * scale;
     }
   }
+}
 
-  // ========== FOOTER ==========
-  const footerY = height - 30;
+// Generated time on the right and calendar health tag on the left, 50px at the bottom; shared by all views
+function drawFooter(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  area: Rect,
+  generatedAt: Date,
+  location: Location,
+  calendarStatus: CalendarStatus,
+  settings: LocaleSettings,
+  scale: number = 1
+) {
+  const strings = settings.strings;
+  const footerY = area.y + 20 * scale;
+  const rightInset = width - (area.x + area.width);
 
   // Thin top border
-  drawHLine(pixels, width, footerY - 10, MARGIN, width - MARGIN, LIGHT_GRAY, 1);
+  drawHLine(pixels, width, footerY - 10 * scale, area.x, area.x + area.width, LIGHT_GRAY, scale);
 
   // "Generated at" timestamp (right aligned, small)
-  const timeStr = generatedAt.toLocaleTimeString('en-US', {
-    hour: '2-digit',
-    minute: '2-digit',
-    hour12: false,
-    timeZone: TIMEZONE,
+  const timeStr = formatTime(generatedAt, location.timezone, settings);
+  const genStr = `${strings.generated} ${timeStr}`;
+  drawRightAlignedText(pixels, width, footerY, genStr, DARK_GRAY, scale, rightInset);
+  const genWidth = getTextWidth(genStr, scale);
+  markVolatile(pixels, {
+    x: width - rightInset - genWidth,
+    y: footerY - (FONT.ascent - FONT.capHeight) * scale,
+    width: genWidth,
+    height: (FONT.ascent + FONT.descent) * scale,
+  });
+
+  // Calendar health tag (left aligned, inverted so it stands out)
+  let statusStr = '';
+  if (calendarStatus.state === 'unavailable') {
+    statusStr = strings.calendarUnavailable;
+  } else if (calendarStatus.state === 'stale') {
+    const since = calendarStatus.since;
+    const sinceTime = formatTime(since, location.timezone, settings);
+    const sameDay = since.toLocaleDateString('en-US', { timeZone: location.timezone })
+      === generatedAt.toLocaleDateString('en-US', { timeZone: location.timezone });
+    const sinceDay = sameDay ? '' : `${formatWeekday(since, location.timezone, settings, 'short')} `;
+    statusStr = `${strings.calendarStaleSince} ${sinceDay}${sinceTime}`;
+  }
+  if (statusStr) {
+    fillRect(pixels, width, height, area.x, footerY - 3 * scale, getTextWidth(statusStr, scale) + 8 * scale, 14 * scale, INK_BLACK);
+    drawText(pixels, width, area.x + 4 * scale, footerY, statusStr, PAPER_WHITE, scale);
+  }
+}
+
+// ============================================================================
+// Month View
+// ============================================================================
+
+const MONTH_GRID_DAYS = 42;  // 6 weeks x 7 days
+
+// The 6x7 grid around the current month, starting on the locale's first day of the week
+function getMonthGridRange(now: Date, location: Location, settings: LocaleSettings): CalendarRange {
+  const today = toWallTime(now, location.timezone);
+  const firstOfMonth = toDateKey(new Date(Date.UTC(today.year, today.month - 1, 1)), 'UTC');
+  const leadingDays = (dateKeyToUtc(firstOfMonth).getUTCDay() - getFirstDayOfWeek(settings) + 7) % 7;
+  return { firstDay: addDaysToKey(firstOfMonth, -leadingDays), days: MONTH_GRID_DAYS };
+}
+
+// Up to three dots for a day's events; busier days get two dots and a count
+function drawEventDots(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  count: number,
+  color: number,
+  scale: number = 1
+) {
+  const dots = count > 3 ? 2 : count;
+  for (let i = 0; i < dots; i++) {
+    fillRect(pixels, width, height, x + i * 9 * scale, y, 6 * scale, 6 * scale, color);
+  }
+  if (count > 3) {
+    drawText(pixels, width, x + dots * 9 * scale, y - scale, `+${count - dots}`, color, scale);
+  }
+}
+
+// Title on the left, current temperature and icon on the right, rule underneath at y=64 (times scale)
+function drawCompactHeader(
+  pixels: Uint8Array,
+  width: number,
+  margin: number,
+  title: string,
+  weather: WeatherData,
+  scale: number = 1
+) {
+  const iconSize = 32 * scale;
+  const tempStr = `${weather.temperature}°`;
+  const tempWidth = getTextWidth(tempStr, 3 * scale);
+  drawWeatherIcon(pixels, width, width - margin - iconSize, 18 * scale, weather.conditionCode, iconSize);
+  drawText(pixels, width, width - margin - iconSize - 8 * scale - tempWidth, 24 * scale, tempStr, INK_BLACK, 3 * scale);
+
+  const titleSpace = width - margin * 2 - iconSize - tempWidth - 24 * scale;
+  const titleScale = getTextWidth(title, 3 * scale) <= titleSpace ? 3 : 2;
+  const titleText = wrapTextLines(title, titleSpace, titleScale * scale, 1)[0] ?? '';
+  drawText(pixels, width, margin, (titleScale === 3 ? 24 : 28) * scale, titleText, INK_BLACK, titleScale * scale);
+  drawHLine(pixels, width, 64 * scale, margin, width - margin, INK_BLACK, 2 * scale);
+}
+
+function renderMonthView(
+  width: number,
+  height: number,
+  weather: WeatherData,
+  days: DayEvents[],
+  generatedAt: Date,
+  location: Location,
+  calendarStatus: CalendarStatus = { state: 'live' },
+  options: RenderOptions = DEFAULT_RENDER_OPTIONS
+): Uint8Array {
+  const pixels = new Uint8Array(width * height);
+  pixels.fill(PAPER_WHITE);
+  const settings = options.locale;
+  const strings = settings.strings;
+
+  const { margin: MARGIN, scale } = getLayoutMetrics(width, height);
+  const contentWidth = width - MARGIN * 2;
+  const FOOTER_HEIGHT = 50 * scale;
+  const maxContentY = height - FOOTER_HEIGHT;
+  const todayKey = toDateKey(generatedAt, location.timezone);
+
+  // ========== HEADER: month title, current weather on the right ==========
+  drawCompactHeader(pixels, width, MARGIN, formatMonthYear(generatedAt, location.timezone, settings), weather, scale);
+
+  // ========== GRID ==========
+  const range = getMonthGridRange(generatedAt, location, settings);
+  const cellWidth = Math.floor(contentWidth / 7);
+  const gridLeft = MARGIN + Math.floor((contentWidth - cellWidth * 7) / 2);
+  const gridTop = 104 * scale;
+  // Square cells where there's room, leaving space below for today's events
+  const minListHeight = 120 * scale;
+  const cellHeight = Math.max(24 * scale, Math.min(cellWidth, Math.floor((maxContentY - gridTop - minListHeight) / 6)));
+
+  // Weekday names, centered over their columns
+  const weekdayNames = Array.from({ length: 7 }, (_, i) =>
+    formatWeekday(dateKeyToUtc(addDaysToKey(range.firstDay, i)), 'UTC', settings, 'short'));
+  const weekdayScale = (weekdayNames.every((name) => getTextWidth(name, 2 * scale) <= cellWidth - 4 * scale) ? 2 : 1) * scale;
+  weekdayNames.forEach((name, i) => {
+    const x = gridLeft + i * cellWidth + Math.floor((cellWidth - getTextWidth(name, weekdayScale)) / 2);
+    drawText(pixels, width, x, 78 * scale, name, DARK_GRAY, weekdayScale);
+  });
+
+  for (let row = 0; row <= 6; row++) {
+    drawHLine(pixels, width, gridTop + row * cellHeight, gridLeft, gridLeft + 7 * cellWidth, LIGHT_GRAY, scale);
+  }
+  for (let col = 0; col <= 7; col++) {
+    fillRect(pixels, width, height, gridLeft + col * cellWidth, gridTop, scale, 6 * cellHeight + scale, LIGHT_GRAY);
+  }
+
+  const eventCounts = new Map(days.map((day) => [toDateKey(day.date, 'UTC'), day.events.length]));
+  const currentMonth = todayKey.slice(0, 7);
+  const numberScale = (cellHeight >= 40 * scale ? 2 : 1) * scale;
+
+  for (let i = 0; i < MONTH_GRID_DAYS; i++) {
+    const key = addDaysToKey(range.firstDay, i);
+    const x = gridLeft + (i % 7) * cellWidth;
+    const y = gridTop + Math.floor(i / 7) * cellHeight;
+
+    // Today inverted; days from the neighbouring months faded
+    let color = key.startsWith(currentMonth) ? INK_BLACK : LIGHT_GRAY;
+    if (key === todayKey) {
+      fillRect(pixels, width, height, x + 2 * scale, y + 2 * scale, cellWidth - 3 * scale, cellHeight - 3 * scale, INK_BLACK);
+      color = PAPER_WHITE;
+    }
+
+    drawText(pixels, width, x + 6 * scale, y + 6 * scale, String(parseInt(key.slice(8), 10)), color, numberScale);
+    const count = eventCounts.get(key) ?? 0;
+    if (count > 0) {
+      drawEventDots(pixels, width, height, x + 6 * scale, y + cellHeight - 10 * scale, count, color, scale);
+    }
+  }
+
+  // ========== TODAY'S EVENTS ==========
+  let eventY = gridTop + 6 * cellHeight + 16 * scale;
+  const rowHeight = 28 * scale;
+  const todayEvents = days.find((day) => day.isToday)?.events ?? [];
+  const timeColumnWidth = Math.max(100 * scale, ...todayEvents.map((event) => getTextWidth(event.time, 2 * scale) + 16 * scale));
+
+  drawText(pixels, width, MARGIN, eventY, strings.today, INK_BLACK, 2 * scale);
+  eventY += 30 * scale;
+
+  if (todayEvents.length === 0 && eventY + rowHeight <= maxContentY) {
+    drawText(pixels, width, MARGIN, eventY, strings.noEvents, LIGHT_GRAY, 2 * scale);
+  }
+
+  for (let i = 0; i < todayEvents.length; i++) {
+    // Keep room for "+N more" when events are left over
+    const isLast = i === todayEvents.length - 1;
+    const moreHeight = 18 * scale;
+    if (eventY + rowHeight > maxContentY || (!isLast && eventY + rowHeight + moreHeight > maxContentY)) {
+      if (eventY + moreHeight <= maxContentY) {
+        drawText(pixels, width, MARGIN, eventY, strings.more(todayEvents.length - i), LIGHT_GRAY, 2 * scale);
+      }
+      break;
+    }
+
+    const event = todayEvents[i];
+    let color = hasEnded(event, generatedAt) || event.responseStatus === 'declined' ? LIGHT_GRAY : INK_BLACK;
+    if (isInProgress(event, generatedAt)) {
+      fillRect(pixels, width, height, MARGIN - 4 * scale, eventY - 6 * scale, contentWidth + 8 * scale, rowHeight - 2 * scale, INK_BLACK);
+      color = PAPER_WHITE;
+    }
+
+    const title = event.span ? `${event.title} ${strings.daySpan(event.span.day, event.span.days)}` : event.title;
+    drawText(pixels, width, MARGIN, eventY, event.time, color, 2 * scale);
+    const titleText = wrapTextLines(title, contentWidth - timeColumnWidth, 2 * scale, 1)[0] ?? '';
+    drawText(pixels, width, MARGIN + timeColumnWidth, eventY, titleText, color, 2 * scale);
+    eventY += rowHeight;
+  }
+
+  // ========== FOOTER ==========
+  drawFooter(pixels, width, height, { x: MARGIN, y: maxContentY, width: contentWidth, height: FOOTER_HEIGHT }, generatedAt, location, calendarStatus, settings, scale);
+
+  return pixels;
+}
+
+// ============================================================================
+// Timeline View
+// ============================================================================
+
+const MIN_BLOCK_MINUTES = 15;  // Short and zero-length events still get a readable block
+
+// Event placed on the timeline: wall-clock minutes on the day, and its column among overlapping events
+interface TimelineBlock {
+  event: CalendarEvent;
+  startMinute: number;
+  endMinute: number;
+  column: number;
+  columns: number;
+}
+
+// Minutes after local midnight, clamped to the given day for events that start before or end after it
+function getMinuteOfDay(date: Date, dayKey: string, timezone: string): number {
+  const key = toDateKey(date, timezone);
+  if (key < dayKey) return 0;
+  if (key > dayKey) return 24 * 60;
+  const wall = toWallTime(date, timezone);
+  return wall.hour * 60 + wall.minute;
+}
+
+// Overlapping events sit side by side; every event in a run of overlaps gets the same column count
+function layoutTimelineBlocks(events: CalendarEvent[], dayKey: string, timezone: string): TimelineBlock[] {
+  const blocks: TimelineBlock[] = events.map((event) => {
+    const startMinute = getMinuteOfDay(event.start, dayKey, timezone);
+    const endMinute = Math.max(startMinute + MIN_BLOCK_MINUTES, getMinuteOfDay(event.end, dayKey, timezone));
+    return { event, startMinute, endMinute, column: 0, columns: 1 };
   });
-  const genStr = `Generated ${timeStr}`;
-  drawRightAlignedText(pixels, width, footerY, genStr, DARK_GRAY, 1, MARGIN);
+  blocks.sort((a, b) => a.startMinute - b.startMinute || b.endMinute - a.endMinute);
+
+  let group: TimelineBlock[] = [];
+  let columnEnds: number[] = [];
+  let groupEnd = -1;
+  const closeGroup = () => {
+    for (const block of group) block.columns = columnEnds.length;
+    group = [];
+    columnEnds = [];
+  };
+
+  for (const block of blocks) {
+    if (block.startMinute >= groupEnd) closeGroup();
+    // First column that's free by the time this event starts
+    let column = columnEnds.findIndex((end) => end <= block.startMinute);
+    if (column === -1) {
+      column = columnEnds.length;
+      columnEnds.push(block.endMinute);
+    } else {
+      columnEnds[column] = block.endMinute;
+    }
+    block.column = column;
+    group.push(block);
+    groupEnd = Math.max(groupEnd, block.endMinute);
+  }
+  closeGroup();
+
+  return blocks;
+}
+
+function renderTimelineView(
+  width: number,
+  height: number,
+  weather: WeatherData,
+  days: DayEvents[],
+  generatedAt: Date,
+  location: Location,
+  calendarStatus: CalendarStatus = { state: 'live' },
+  options: RenderOptions = DEFAULT_RENDER_OPTIONS
+): Uint8Array {
+  const pixels = new Uint8Array(width * height);
+  pixels.fill(PAPER_WHITE);
+  const settings = options.locale;
+  const strings = settings.strings;
+
+  const { margin: MARGIN, scale } = getLayoutMetrics(width, height);
+  const contentWidth = width - MARGIN * 2;
+  const FOOTER_HEIGHT = 50 * scale;
+  const maxContentY = height - FOOTER_HEIGHT;
+  const todayKey = toDateKey(generatedAt, location.timezone);
+  const hours = options.timelineHours;
+
+  // ========== HEADER: today's date, current weather on the right ==========
+  drawCompactHeader(pixels, width, MARGIN, formatHeaderDate(generatedAt, location.timezone, settings), weather, scale);
+
+  // Whole-day events go in a strip above the ruler, the rest become blocks
+  const todayEvents = days.find((day) => day.isToday)?.events ?? [];
+  const blocks = layoutTimelineBlocks(todayEvents.filter((event) => !event.isAllDay), todayKey, location.timezone);
+  const wholeDay = todayEvents.filter((event) => event.isAllDay);
+  for (const block of blocks) {
+    if (block.startMinute === 0 && block.endMinute === 24 * 60) wholeDay.push(block.event);
+  }
+  const timed = blocks.filter((block) => !wholeDay.includes(block.event));
+
+  let y = 76 * scale;
+  const allDayRowHeight = 20 * scale;
+  const maxAllDayRows = 2;
+  for (let i = 0; i < wholeDay.length && i < maxAllDayRows; i++) {
+    const event = wholeDay[i];
+    const overflow = i === maxAllDayRows - 1 && wholeDay.length > maxAllDayRows;
+    const text = overflow
+      ? strings.more(wholeDay.length - i)
+      : (event.span ? `${event.title} ${strings.daySpan(event.span.day, event.span.days)}` : event.title);
+    fillRect(pixels, width, height, MARGIN, y, contentWidth, allDayRowHeight - 4 * scale, LIGHT_GRAY);
+    drawText(pixels, width, MARGIN + 6 * scale, y + 4 * scale, wrapTextLines(text, contentWidth - 12 * scale, scale, 1)[0] ?? '', INK_BLACK, scale);
+    y += allDayRowHeight;
+  }
+
+  // ========== HOUR RULER ==========
+  const rulerTop = y + 8 * scale;
+  const rulerBottom = maxContentY - 8 * scale;
+  const windowStart = hours.start * 60;
+  const windowEnd = hours.end * 60;
+  const pxPerMinute = (rulerBottom - rulerTop) / (windowEnd - windowStart);
+  const toY = (minute: number) => Math.round(rulerTop + (minute - windowStart) * pxPerMinute);
+
+  // Labels are wall-clock hours, formatted in the display's clock style
+  const hourLabel = (hour: number) => formatTime(new Date(Date.UTC(2000, 0, 1, hour % 24)), 'UTC', settings);
+  let labelWidth = 0;
+  for (let hour = hours.start; hour <= hours.end; hour++) {
+    labelWidth = Math.max(labelWidth, getTextWidth(hourLabel(hour), scale));
+  }
+  const areaLeft = MARGIN + labelWidth + 8 * scale;
+  const areaWidth = width - MARGIN - areaLeft;
+  const labelStep = pxPerMinute * 60 >= 16 * scale ? 1 : 2;
+
+  for (let hour = hours.start; hour <= hours.end; hour++) {
+    const lineY = toY(hour * 60);
+    if ((hour - hours.start) % labelStep === 0) {
+      drawText(pixels, width, MARGIN, lineY - 3 * scale, hourLabel(hour), DARK_GRAY, scale);
+      drawHLine(pixels, width, lineY, areaLeft, width - MARGIN, LIGHT_GRAY, scale);
+    } else {
+      drawDashedHLine(pixels, width, lineY, areaLeft, width - MARGIN, LIGHT_GRAY, 2 * scale, 4 * scale);
+    }
+  }
+
+  // ========== EVENT BLOCKS ==========
+  let outsideWindow = 0;
+  for (const block of timed) {
+    if (block.endMinute <= windowStart || block.startMinute >= windowEnd) {
+      outsideWindow++;
+      continue;
+    }
+
+    const event = block.event;
+    const columnWidth = areaWidth / block.columns;
+    const x = areaLeft + Math.round(block.column * columnWidth) + scale;
+    const w = Math.round(columnWidth) - 3 * scale;
+    const top = toY(Math.max(block.startMinute, windowStart)) + scale;
+    const h = Math.max(10 * scale, toY(Math.min(block.endMinute, windowEnd)) - top - scale);
+
+    // In progress: inverted; over or declined: gray outline; otherwise a black outline
+    const inProgress = isInProgress(event, generatedAt);
+    const dimmed = hasEnded(event, generatedAt) || event.responseStatus === 'declined';
+    const textColor = inProgress ? PAPER_WHITE : dimmed ? LIGHT_GRAY : INK_BLACK;
+    fillRect(pixels, width, height, x, top, w, h, inProgress ? INK_BLACK : PAPER_WHITE);
+    if (!inProgress) drawRect(pixels, width, height, x, top, w, h, dimmed ? LIGHT_GRAY : INK_BLACK, (h < 16 * scale ? 1 : 2) * scale);
+
+    // Time range on top when the block is tall enough, then as much of the title as fits
+    const innerWidth = w - 8 * scale;
+    const title = event.span ? `${event.title} ${strings.daySpan(event.span.day, event.span.days)}` : event.title;
+    let textY = h < 20 * scale ? top + Math.max(scale, Math.floor((h - 7 * scale) / 2)) : top + 4 * scale;
+    if (h >= 38 * scale) {
+      const range = `${formatTime(event.start, location.timezone, settings)}\u2013${formatTime(event.end, location.timezone, settings)}`;
+      drawText(pixels, width, x + 4 * scale, textY, wrapTextLines(range, innerWidth, scale, 1)[0] ?? '', textColor, scale);
+      textY += 12 * scale;
+    }
+
+    // Large text only when the whole title fits that way
+    const linesAt = (lineHeight: number) => Math.max(1, Math.floor((top + h - textY) / lineHeight));
+    const large = wrapTextLines(title, innerWidth, 2 * scale, MAX_TITLE_LINES + 1);
+    const useLarge = top + h - textY >= 20 * scale && large.length <= linesAt(22 * scale);
+    const lineHeight = (useLarge ? 22 : 11) * scale;
+    const lines = useLarge ? large : wrapTextLines(title, innerWidth, scale, linesAt(lineHeight));
+    lines.forEach((line, lineIndex) => {
+      drawText(pixels, width, x + 4 * scale, textY + lineIndex * lineHeight, line, textColor, (useLarge ? 2 : 1) * scale);
+    });
+  }
+
+  // Events before or after the ruler's hours
+  if (outsideWindow > 0) {
+    drawRightAlignedText(pixels, width, 68 * scale, strings.more(outsideWindow), DARK_GRAY, scale, MARGIN);
+  }
+
+  // ========== NOW MARKER ==========
+  const nowMinute = getMinuteOfDay(generatedAt, todayKey, location.timezone);
+  if (nowMinute >= windowStart && nowMinute <= windowEnd) {
+    const nowY = toY(nowMinute);
+    fillRect(pixels, width, height, areaLeft - 8 * scale, nowY - 3 * scale, 6 * scale, 7 * scale, INK_BLACK);
+    drawHLine(pixels, width, nowY - scale, areaLeft, width - MARGIN, INK_BLACK, 2 * scale);
+  }
+
+  // ========== FOOTER ==========
+  drawFooter(pixels, width, height, { x: MARGIN, y: maxContentY, width: contentWidth, height: FOOTER_HEIGHT }, generatedAt, location, calendarStatus, settings, scale);
+
+  return pixels;
+}
+
+// ============================================================================
+// Device Profiles
+// ============================================================================
+
+// Profile fields and the settings they replace; objects are stored as JSON
+const PROFILE_SETTINGS: { [field: string]: keyof Env } = {
+  units: 'UNITS',
+  locale: 'LOCALE',
+  timeFormat: 'TIME_FORMAT',
+  view: 'VIEW',
+  width: 'DISPLAY_WIDTH',
+  height: 'DISPLAY_HEIGHT',
+  rotation: 'ROTATION',
+  bitDepth: 'BIT_DEPTH',
+  dither: 'DITHER',
+  format: 'OUTPUT_FORMAT',
+  chart: 'SHOW_HOURLY_CHART',
+  layout: 'LAYOUT',
+};
+
+// The deployment's settings with the device's own in their place; credentials stay shared
+function applyDeviceProfile(env: Env, profile: DeviceProfile): Env {
+  const settings: { [name: string]: unknown } = { ...env };
+
+  for (const [field, name] of Object.entries(PROFILE_SETTINGS)) {
+    const value = profile[field as keyof DeviceProfile];
+    if (value !== undefined) settings[name] = typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }
+
+  // A device with its own calendars doesn't also get the deployment's
+  if (profile.calendars) {
+    settings.CALENDAR_SOURCES = JSON.stringify(profile.calendars);
+    settings.ICS_CALENDAR_URL = undefined;
+    settings.CALDAV_URL = undefined;
+    settings.GOOGLE_CALENDAR_ID = undefined;
+  }
+
+  if (profile.location) {
+    settings.LOCATION_LAT = String(profile.location.lat);
+    settings.LOCATION_LON = String(profile.location.lon);
+    settings.LOCATION_TIMEZONE = profile.location.timezone;
+    settings.LOCATION_LABEL = profile.location.label;
+  }
+
+  return settings as unknown as Env;
+}
+
+// ============================================================================
+// Access Control
+// ============================================================================
+
+const DEFAULT_RATE_LIMIT = 120;  // Renders per caller per hour, once callers have credentials
+
+function getAuthSettings(env: Env): AuthSettings {
+  return {
+    tokens: (env.AUTH_TOKENS ?? '').split(',').map((token) => token.trim()).filter(Boolean),
+    signingKey: env.URL_SIGNING_KEY || null,
+  };
+}
 
+// RATE_LIMIT if set; otherwise open deployments aren't limited, since callers sharing an IP
+// (a household NAT, a proxy) would trip a per-IP default between them
+function getRateLimit(env: Env, authenticated: boolean): number {
+  const limit = parseInt(env.RATE_LIMIT ?? '', 10);
+  if (limit >= 0) return limit;
+  return authenticated ? DEFAULT_RATE_LIMIT : 0;
+}
+
+// Plain panel with one centered line, for answers that shouldn't show any calendar content
+function renderMessage(width: number, height: number, message: string): Uint8Array {
+  const pixels = new Uint8Array(width * height);
+  pixels.fill(PAPER_WHITE);
+  const scale = getTextWidth(message, 3) <= width - 48 ? 3 : 2;
+  drawCenteredText(pixels, width, Math.floor((height - FONT.capHeight * scale) / 2), message, INK_BLACK, scale);
   return pixels;
 }
 
+// ============================================================================
+// Debug Routes
+// ============================================================================
+
+// Body of POST /debug/render; the shape /debug/data returns, so a dump can be edited and sent back
+interface RenderFixture {
+  weather: WeatherData;
+  days: DayEvents[];
+  calendarStatus: CalendarStatus;
+  generatedAt: Date;
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseFixtureDate(value: unknown, path: string): Date {
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  if (!date || isNaN(date.getTime())) throw new Error(`${path} must be a date`);
+  return date;
+}
+
+function parseFixtureWeather(value: unknown): WeatherData {
+  if (value === undefined) return UNAVAILABLE_WEATHER;
+  if (!isObject(value)) throw new Error('weather must be an object');
+  const weather = { ...UNAVAILABLE_WEATHER, ...value } as WeatherData;
+  for (const field of ['temperature', 'temperatureHigh', 'temperatureLow', 'conditionCode'] as const) {
+    if (typeof weather[field] !== 'number') throw new Error(`weather.${field} must be a number`);
+  }
+  if (typeof weather.condition !== 'string') throw new Error('weather.condition must be a string');
+  if (!Array.isArray(weather.daily) || !Array.isArray(weather.hourly)) throw new Error('weather.daily and weather.hourly must be arrays');
+  return weather;
+}
+
+const RESPONSE_STATUSES: ResponseStatus[] = ['accepted', 'tentative', 'declined', 'needsAction'];
+
+function parseFixtureEvent(value: unknown, path: string): CalendarEvent {
+  if (!isObject(value)) throw new Error(`${path} must be an object`);
+  if (typeof value.title !== 'string') throw new Error(`${path}.title must be a string`);
+  if (value.responseStatus !== undefined && !RESPONSE_STATUSES.includes(value.responseStatus as ResponseStatus)) {
+    throw new Error(`${path}.responseStatus must be one of ${RESPONSE_STATUSES.map((status) => `"${status}"`).join(', ')}`);
+  }
+  let span: CalendarEvent['span'];
+  if (value.span !== undefined) {
+    const { day, days } = isObject(value.span) ? value.span : {};
+    if (!Number.isInteger(day) || !Number.isInteger(days) || (day as number) < 1 || (day as number) > (days as number)) {
+      throw new Error(`${path}.span must be { day, days } with 1 <= day <= days`);
+    }
+    span = { day: day as number, days: days as number };
+  }
+  return {
+    time: typeof value.time === 'string' ? value.time : '',
+    title: value.title,
+    isAllDay: value.isAllDay === true,
+    source: typeof value.source === 'number' ? value.source : 0,
+    start: parseFixtureDate(value.start, `${path}.start`),
+    end: parseFixtureDate(value.end, `${path}.end`),
+    location: typeof value.location === 'string' ? value.location : undefined,
+    responseStatus: value.responseStatus as ResponseStatus | undefined,
+    span,
+  };
+}
+
+// Throws with the path of the first problem found; generatedAt defaults to now
+function parseRenderFixture(value: unknown, now: Date): RenderFixture {
+  if (!isObject(value)) throw new Error('fixture must be an object');
+
+  const days = value.days ?? [];
+  if (!Array.isArray(days)) throw new Error('days must be an array');
+
+  let calendarStatus: CalendarStatus = { state: 'live' };
+  if (value.calendarStatus !== undefined) {
+    const status = value.calendarStatus as { [key: string]: unknown };
+    if (status?.state === 'stale') {
+      calendarStatus = { state: 'stale', since: parseFixtureDate(status.since, 'calendarStatus.since') };
+    } else if (status?.state === 'live' || status?.state === 'demo' || status?.state === 'unavailable') {
+      calendarStatus = { state: status.state };
+    } else {
+      throw new Error('calendarStatus.state must be "live", "demo", "stale" or "unavailable"');
+    }
+  }
+
+  return {
+    weather: parseFixtureWeather(value.weather),
+    days: days.map((day: unknown, index): DayEvents => {
+      const path = `days[${index}]`;
+      if (!isObject(day)) throw new Error(`${path} must be an object`);
+      if (!Array.isArray(day.events)) throw new Error(`${path}.events must be an array`);
+      return {
+        label: typeof day.label === 'string' ? day.label : '',
+        isToday: day.isToday === true,
+        date: parseFixtureDate(day.date, `${path}.date`),
+        events: day.events.map((event, eventIndex) => parseFixtureEvent(event, `${path}.events[${eventIndex}]`)),
+      };
+    }),
+    calendarStatus,
+    generatedAt: value.generatedAt !== undefined ? parseFixtureDate(value.generatedAt, 'generatedAt') : now,
+  };
+}
+
+// Settings and data sources behind a render, as rows for the preview page
+function describeRender(settings: DisplaySettings, data: DisplayData, generatedAt: Date): Array<[string, string]> {
+  const { options, output, location } = settings;
+  const { weather, calendar } = data;
+  return [
+    ['Panel', `${settings.panelWidth}x${settings.panelHeight}, rotated ${output.rotation}°`],
+    ['View', `${options.view}${options.layout ? ' (custom layout)' : ''}${options.showHourlyChart ? ', hourly chart' : ''}`],
+    ['Output', `${output.format}, ${output.bitDepth} bpp, dither ${output.dither}`],
+    ['Locale', `${options.locale.locale}, ${options.locale.hour12 ? '12h' : '24h'}, ${settings.units}`],
+    ['Location', `${location.label} (${location.lat}, ${location.lon}) ${location.timezone}`],
+    ['Calendar', `${calendar.status.state}, ${calendar.days.reduce((count, day) => count + day.events.length, 0)} events`],
+    ['Weather', `${weather.provider}${weather.cached ? ' (cached)' : ''}`],
+    ['Weather cache', weather.cacheKey],
+    ['Generated', generatedAt.toISOString()],
+  ];
+}
+
+/**
+ * Serve /debug (preview page), /debug/data (the data a render is drawn from, as JSON)
+ * and POST /debug/render (a render of posted data). basePath is the device path, if any.
+ * ?now=<ISO time> renders as of that time instead of the request's.
+ */
+async function handleDebugRoute(
+  route: string,
+  basePath: string,
+  request: Request,
+  url: URL,
+  env: Env,
+  settings: DisplaySettings,
+  requestTime: Date
+): Promise<Response> {
+  const { width, height, output } = settings;
+  const noStore = { 'Cache-Control': 'no-store' };
+
+  let now = requestTime;
+  if (url.searchParams.has('now')) {
+    try {
+      now = parseFixtureDate(url.searchParams.get('now'), 'now');
+    } catch {
+      return new Response('Invalid now: expected an ISO 8601 time', { status: 400, headers: noStore });
+    }
+  }
+
+  if (route === '/debug/render') {
+    if (request.method !== 'POST') {
+      return new Response('Method not allowed', { status: 405, headers: { 'Allow': 'POST' } });
+    }
+    let fixture: RenderFixture;
+    try {
+      fixture = parseRenderFixture(await request.json(), now);
+    } catch (error) {
+      return new Response(`Invalid fixture: ${error instanceof Error ? error.message : error}`, { status: 400, headers: noStore });
+    }
+    const sources = getCalendarSources(env);
+    const markers = sources.map((_, index) => getSourceMarker(sources, index));
+    const pixels = renderView(settings, fixture.weather, fixture.days, fixture.generatedAt, markers, fixture.calendarStatus);
+    const image = await encodeImage(pixels, width, height, output);
+    return new Response(image.body, {
+      headers: {
+        'Content-Type': image.contentType,
+        'Content-Disposition': `inline; filename="${image.filename}"`,
+        ...noStore,
+        'X-Display-Width': String(settings.panelWidth),
+        'X-Display-Height': String(settings.panelHeight),
+        'X-Bit-Depth': String(output.bitDepth),
+      },
+    });
+  }
+
+  if (request.method !== 'GET' && request.method !== 'HEAD') {
+    return new Response('Method not allowed', { status: 405, headers: { 'Allow': 'GET' } });
+  }
+
+  const data = await loadDisplayData(env, settings, now);
+
+  if (route === '/debug/data') {
+    const dump = {
+      generatedAt: now,
+      location: settings.location,
+      view: settings.options.view,
+      weather: data.weather.weather,
+      weatherSource: { provider: data.weather.provider, cacheKey: data.weather.cacheKey, cached: data.weather.cached },
+      days: data.calendar.days,
+      calendarStatus: data.calendar.status,
+    };
+    return new Response(JSON.stringify(dump, null, 2), {
+      headers: { 'Content-Type': 'application/json; charset=utf-8', ...noStore },
+    });
+  }
+
+  if (route === '/debug') {
+    const pixels = renderView(settings, data.weather.weather, data.calendar.days, now, data.markers, data.calendar.status);
+    // Browsers don't all show BMP; PNG at the same depth shows exactly what the panel gets
+    const image = await encodeImage(pixels, width, height, { ...output, format: 'png' });
+    const html = renderDebugPage({
+      png: image.body,
+      width: settings.panelWidth,
+      height: settings.panelHeight,
+      settings: describeRender(settings, data, now),
+      links: [
+        ['Image', `${basePath}/${url.search}`],
+        ['Data (JSON)', `${basePath}/debug/data${url.search}`],
+      ],
+    });
+    return new Response(html, { headers: { 'Content-Type': 'text/html; charset=utf-8', ...noStore } });
+  }
+
+  return new Response('Not found', { status: 404 });
+}
+
+// ============================================================================
+// Scheduled Pre-rendering
+// ============================================================================
+
+const DEFAULT_PRERENDER_TTL = 15 * 60;  // seconds; outlasts a couple of missed cron runs
+
+function parsePrerenderTtl(value: string | undefined): number {
+  const ttl = parseInt(value ?? '', 10);
+  return ttl > 0 ? ttl : DEFAULT_PRERENDER_TTL;
+}
+
+// Stored images are keyed by everything that shapes them, so a request that changes any of
+// it (query parameters, an Accept for another format) misses and is rendered inline
+async function getRenderKey(env: Env, settings: DisplaySettings): Promise<string> {
+  const inputs = { settings, sources: getCalendarSources(env), demo: env.DEMO_MODE === 'true' };
+  return `render:${await sha256Hex(JSON.stringify(inputs))}`;
+}
+
+// Draw a display as a request without query parameters would get it, and store the image.
+// KV writes are metered, so an image with the same ETag as the stored one is left alone until
+// half its TTL is gone; rewriting it then keeps it from expiring between cron runs.
+// Returns whether the image was written.
+async function prerenderDisplay(env: Env, renders: KVNamespace, now: Date, ttl: number): Promise<boolean> {
+  const settings = resolveDisplaySettings(new Request('https://crosspoint-calendar.internal/'), env, new URLSearchParams());
+  const { width, height, output } = settings;
+  const { weather, calendar, markers } = await loadDisplayData(env, settings, now);
+  const pixels = renderView(settings, weather.weather, calendar.days, now, markers, calendar.status);
+  const etag = await getContentTag(pixels, width, output);
+  const key = await getRenderKey(env, settings);
+
+  const stored = await loadStoredRenderInfo(renders, key);
+  if (stored?.etag === etag && now.getTime() - stored.renderedAt.getTime() < ttl * 1000 / 2) return false;
+
+  const image = await encodeImage(pixels, width, height, output);
+  await saveStoredRender(renders, key, { ...image, etag, renderedAt: now }, ttl);
+  return true;
+}
+
+/** Pre-render the deployment's own display and every registered device into RENDERS */
+async function prerenderDisplays(env: Env, now: Date): Promise<void> {
+  if (!env.RENDERS) {
+    console.log('No RENDERS namespace bound; skipping pre-render');
+    return;
+  }
+
+  const displays: Array<{ name: string; env: Env }> = [{ name: 'default display', env }];
+  if (env.DEVICES) {
+    for (const token of await listDeviceTokens(env.DEVICES)) {
+      try {
+        const profile = await loadDeviceProfile(env.DEVICES, token);
+        if (profile) {
+          displays.push({ name: `device ${profile.name || `${token.slice(0, 4)}...`}`, env: applyDeviceProfile(env, profile) });
+        }
+      } catch (error) {
+        console.error('Device profile error:', error);
+      }
+    }
+  }
+
+  // One at a time, so displays sharing a location reuse the weather the first one cached
+  const ttl = parsePrerenderTtl(env.PRERENDER_TTL);
+  for (const display of displays) {
+    try {
+      const written = await prerenderDisplay(display.env, env.RENDERS, now, ttl);
+      console.log(written ? `Pre-rendered ${display.name}` : `Pre-rendered ${display.name}; unchanged, not stored`);
+    } catch (error) {
+      console.error(`Pre-render failed for ${display.name}:`, error);
+    }
+  }
+}
+
 // ============================================================================
 // Worker Handler
 // ============================================================================
 
+// Everything a render depends on, after the device profile, env and query parameters are merged
+interface DisplaySettings {
+  panelWidth: number;
+  panelHeight: number;
+  width: number;   // Layout size: the panel's, swapped when it's turned a quarter
+  height: number;
+  location: Location;
+  units: Units;
+  demo: boolean;
+  options: RenderOptions;
+  output: OutputSettings;
+}
+
+function resolveDisplaySettings(request: Request, env: Env, params: URLSearchParams): DisplaySettings {
+  const panelWidth = parseInt(env.DISPLAY_WIDTH) || 480;
+  const panelHeight = parseInt(env.DISPLAY_HEIGHT) || 800;
+  // The layout is drawn upright; a sideways panel gets a layout of the opposite orientation
+  const rotation = parseRotation(params.get('rotate')) ?? parseRotation(env.ROTATION) ?? 0;
+  const [width, height] = rotation % 180 === 0 ? [panelWidth, panelHeight] : [panelHeight, panelWidth];
+  const chartParam = params.get('chart');
+
+  return {
+    panelWidth,
+    panelHeight,
+    width,
+    height,
+    location: resolveLocation(env, params),
+    units: parseUnits(params.get('units')) ?? parseUnits(env.UNITS) ?? 'imperial',
+    demo: params.get('demo') === '1' || params.get('demo') === 'true',
+    options: {
+      view: parseViewMode(params.get('view')) ?? parseViewMode(env.VIEW) ?? 'agenda',
+      showHourlyChart: chartParam !== null ? chartParam === '1' || chartParam === 'true' : env.SHOW_HOURLY_CHART === 'true',
+      locale: resolveLocaleSettings(params.get('locale') ?? env.LOCALE, params.get('time') ?? env.TIME_FORMAT),
+      titleLines: parseTitleLines(params.get('lines')) ?? parseTitleLines(env.TITLE_LINES) ?? DEFAULT_TITLE_LINES,
+      eventEnd: parseEventEndStyle(params.get('end')) ?? parseEventEndStyle(env.EVENT_END) ?? 'range',
+      showLocations: parseFlag(params.get('locations')) ?? parseFlag(env.SHOW_LOCATIONS) ?? true,
+      pastEvents: (params.get('past') ?? env.PAST_EVENTS) === 'hide' ? 'hide' : 'dim',
+      timelineHours: parseTimelineHours(params.get('hours')) ?? parseTimelineHours(env.TIMELINE_HOURS) ?? DEFAULT_TIMELINE_HOURS,
+      layout: getLayout(env.LAYOUT),
+    },
+    output: {
+      format: parseOutputFormat(params.get('format'))
+        ?? negotiateOutputFormat(request.headers.get('Accept'))
+        ?? parseOutputFormat(env.OUTPUT_FORMAT)
+        ?? 'bmp',
+      bitDepth: parseBitDepth(params.get('bpp')) ?? parseBitDepth(env.BIT_DEPTH) ?? 8,
+      dither: parseDitherMode(params.get('dither')) ?? parseDitherMode(env.DITHER) ?? 'none',
+      rotation,
+    },
+  };
+}
+
+// What a render is drawn from
+interface DisplayData {
+  weather: WeatherResult;
+  calendar: CalendarResult;
+  markers: MarkerShape[];
+}
+
+// Fetch the weather and calendar for a render at now
+async function loadDisplayData(env: Env, settings: DisplaySettings, now: Date): Promise<DisplayData> {
+  const { location, units, options } = settings;
+  const sources = getCalendarSources(env);
+  const markers = sources.map((_, index) => getSourceMarker(sources, index));
+
+  // Fetch data in parallel
+  const [weather, calendar] = await Promise.all([
+    fetchWeather(env, location, units),
+    fetchCalendarEvents(env, location, options.locale, now, settings.demo, options.view === 'month' ? getMonthGridRange(now, location, options.locale) : null),
+  ]);
+  return { weather, calendar, markers };
+}
+
+// Draw the configured view; the pixels depend only on the arguments, so fixed inputs render identically
+function renderView(
+  settings: DisplaySettings,
+  weather: WeatherData,
+  days: DayEvents[],
+  generatedAt: Date,
+  markers: MarkerShape[],
+  status: CalendarStatus
+): Uint8Array {
+  const { width, height, location, options } = settings;
+  if (options.view === 'month') {
+    return renderMonthView(width, height, weather, days, generatedAt, location, status, options);
+  }
+  if (options.view === 'timeline') {
+    return renderTimelineView(width, height, weather, days, generatedAt, location, status, options);
+  }
+  return renderDisplay(width, height, weather, days, generatedAt, location, markers, status, options);
+}
+
+function getImageCacheHeaders(etag: string): { [name: string]: string } {
+  return {
+    'Cache-Control': 'no-cache',
+    'ETag': etag,
+    'Vary': 'Accept',
+  };
+}
+
+function createNotModifiedResponse(etag: string): Response {
+  return new Response(null, { status: 304, headers: getImageCacheHeaders(etag) });
+}
+
+function createImageResponse(image: EncodedImage, settings: DisplaySettings, etag: string): Response {
+  return new Response(image.body, {
+    headers: {
+      'Content-Type': image.contentType,
+      'Content-Disposition': `inline; filename="${image.filename}"`,
+      ...getImageCacheHeaders(etag),
+      // The raw format has no header of its own
+      'X-Display-Width': String(settings.panelWidth),
+      'X-Display-Height': String(settings.panelHeight),
+      'X-Bit-Depth': String(settings.output.bitDepth),
+    },
+  });
+}
+
+// 401 for a missing or bad credential, as plain text or, with UNAUTHORIZED_RESPONSE=image, a picture.
+// The picture costs a render, so each IP gets only the rate limit's worth of them; after that, plain text.
+async function createUnauthorizedResponse(request: Request, env: Env, params: URLSearchParams, now: Date): Promise<Response> {
+  console.log('Rejected unauthorized request');
+  const headers = { 'Cache-Control': 'no-store', 'WWW-Authenticate': 'Bearer' };
+  const identity = `unauthorized:${request.headers.get('CF-Connecting-IP') ?? 'unknown'}`;
+  if (env.UNAUTHORIZED_RESPONSE === 'image' && await checkRateLimit(identity, getRateLimit(env, true) || DEFAULT_RATE_LIMIT, now) === 0) {
+    const { width, height, output } = resolveDisplaySettings(request, env, params);
+    const image = await encodeImage(renderMessage(width, height, 'NOT AUTHORIZED'), width, height, output);
+    return new Response(image.body, { status: 401, headers: { 'Content-Type': image.contentType, ...headers } });
+  }
+  return new Response('Unauthorized', { status: 401, headers });
+}
+
 export default {
   async fetch(request: Request, env: Env): Promise<Response> {
-    const width = parseInt(env.DISPLAY_WIDTH) || 480;
-    const height = parseInt(env.DISPLAY_HEIGHT) || 800;
+    const url = new URL(request.url);
+    const params = url.searchParams;
+    const now = new Date();
+
+    // Debug routes sit under the same path as the image, e.g. /debug or /d/<token>/debug
+    const basePath = url.pathname.match(/^\/d\/[^/]+/)?.[0] ?? '';
+    const route = url.pathname.slice(basePath.length).replace(/\/+$/, '');
+    const isDebugRoute = route === '/debug' || route.startsWith('/debug/');
+    if (isDebugRoute && env.DEBUG_ROUTES !== 'true') {
+      return new Response('Not found', { status: 404 });
+    }
+
+    // Registered devices are let in by their token; everyone else needs a shared token or signed URL.
+    // Without a DEVICES namespace there's no registry, so device tokens are ignored.
+    const deviceToken = env.DEVICES ? getDeviceToken(url) : null;
+    const authSettings = getAuthSettings(env);
+    const auth: AuthResult = deviceToken
+      ? { identity: `device:${await sha256Hex(deviceToken)}` }
+      : await authorizeRequest(request, url, authSettings, now);
+    if (!auth) {
+      return createUnauthorizedResponse(request, env, params, now);
+    }
+
+    // Counted before the profile lookup, so a device retrying a bad token doesn't hit KV every time
+    const rateLimit = getRateLimit(env, deviceToken !== null || isAuthRequired(authSettings));
+    const retryAfter = await checkRateLimit(auth.identity, rateLimit, now);
+    if (retryAfter > 0) {
+      console.log(`Rate limited ${auth.identity.split(':')[0]} caller`);
+      return new Response('Too many requests', { status: 429, headers: { 'Retry-After': String(retryAfter) } });
+    }
+
+    // Registered devices render their own profile; unknown tokens look like any other bad credential
+    if (deviceToken) {
+      let profile: DeviceProfile | null = null;
+      try {
+        profile = await loadDeviceProfile(env.DEVICES!, deviceToken);
+      } catch (error) {
+        console.error('Device profile error:', error);
+        return new Response('Invalid device profile', { status: 500 });
+      }
+      if (!profile) {
+        return createUnauthorizedResponse(request, env, params, now);
+      }
+      env = applyDeviceProfile(env, profile);
+    }
+
+    const settings = resolveDisplaySettings(request, env, params);
+    const { width, height, output } = settings;
+
+    if (isDebugRoute) {
+      return handleDebugRoute(route, basePath, request, url, env, settings, now);
+    }
+
+    // The cron trigger may have drawn this exact image already
+    const stored = env.RENDERS ? await loadStoredRender(env.RENDERS, await getRenderKey(env, settings)) : null;
+    if (stored) {
+      console.log(`Using image pre-rendered at ${stored.renderedAt.toISOString()}`);
+      if (matchesETag(request.headers.get('If-None-Match'), stored.etag)) {
+        return createNotModifiedResponse(stored.etag);
+      }
+      return createImageResponse(stored, settings, stored.etag);
+    }
 
-    // Fetch data in parallel
-    const [weather, days] = await Promise.all([
-      fetchWeather(env),
-      fetchCalendarEvents(env),
-    ]);
+    const { weather, calendar, markers } = await loadDisplayData(env, settings, now);
 
     // Generate display
-    const generatedAt = new Date();
-    const pixels = renderDisplay(width, height, weather, days, generatedAt);
+    const pixels = renderView(settings, weather.weather, calendar.days, now, markers, calendar.status);
 
-    // Create BMP
-    const bmp = createBMP(width, height, pixels);
+    // Nothing visible changed since the device's copy: skip encoding and the download
+    const etag = await getContentTag(pixels, width, output);
+    if (matchesETag(request.headers.get('If-None-Match'), etag)) {
+      return createNotModifiedResponse(etag);
+    }
 
-    return new Response(bmp, {
-      headers: {
-        'Content-Type': 'image/bmp',
-        'Content-Disposition': 'inline; filename="calendar.bmp"',
-        'Cache-Control': 'no-cache',
-      },
-    });
+    return createImageResponse(await encodeImage(pixels, width, height, output), settings, etag);
+  },
+
+  // Cron trigger: refresh calendars and weather and pre-render every display
+  async scheduled(controller: ScheduledController, env: Env): Promise<void> {
+    await prerenderDisplays(env, new Date(controller.scheduledTime));
   },
 };
@@ -0,0 +1,156 @@
+/**
+ * Declarative screen layout
+ * A layout is a tree of rows and columns whose leaves name widgets. Each container shares
+ * its box among its children: fixed sizes first, then what widgets measure, then the rest
+ * split between the children that grow. Drawing is left to the widgets themselves.
+ */
+
+// Panel area a widget or container is drawn into
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type WidgetOptions = { [name: string]: string | number | boolean };
+
+// Sizing shared by widgets and containers: size is a fraction of the parent (up to 1) or
+// pixels at the base scale; without either, containers grow and widgets measure themselves
+interface NodeSizing {
+  size?: number;
+  grow?: boolean;
+}
+
+export interface WidgetNode extends NodeSizing {
+  widget: string;
+  options?: WidgetOptions;
+}
+
+export interface ContainerNode extends NodeSizing {
+  direction: 'row' | 'column';
+  children: LayoutNode[];
+  divider?: boolean;  // Rule between neighbouring children
+}
+
+export type LayoutNode = WidgetNode | ContainerNode;
+
+export interface WidgetPlacement {
+  node: WidgetNode;
+  area: Rect;  // Box minus the side margins
+}
+
+export interface ArrangedLayout {
+  widgets: WidgetPlacement[];
+  dividers: Rect[];
+}
+
+// Preferred height of a widget at the given width, or null to take whatever is left
+export type MeasureWidget = (node: WidgetNode, width: number) => number | null;
+
+function parseSizing(value: { [key: string]: unknown }, path: string): NodeSizing {
+  const sizing: NodeSizing = {};
+  if (value.size !== undefined) {
+    if (typeof value.size !== 'number' || !(value.size > 0)) {
+      throw new Error(`${path}.size must be a positive number`);
+    }
+    sizing.size = value.size;
+  }
+  if (value.grow !== undefined) sizing.grow = value.grow === true;
+  return sizing;
+}
+
+function parseNode(value: unknown, widgetTypes: string[], path: string): LayoutNode {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${path} must be an object`);
+  }
+  const node = value as { [key: string]: unknown };
+
+  if (typeof node.widget === 'string') {
+    if (!widgetTypes.includes(node.widget)) {
+      throw new Error(`${path}: unknown widget "${node.widget}"`);
+    }
+    const options: WidgetOptions = {};
+    if (typeof node.options === 'object' && node.options !== null) {
+      for (const [name, option] of Object.entries(node.options)) {
+        if (typeof option === 'string' || typeof option === 'number' || typeof option === 'boolean') {
+          options[name] = option;
+        }
+      }
+    }
+    return { widget: node.widget, options, ...parseSizing(node, path) };
+  }
+
+  if (node.direction !== 'row' && node.direction !== 'column') {
+    throw new Error(`${path} needs a "widget" or a "direction" of "row" or "column"`);
+  }
+  if (!Array.isArray(node.children) || node.children.length === 0) {
+    throw new Error(`${path}.children must be a non-empty array`);
+  }
+  return {
+    direction: node.direction,
+    children: node.children.map((child, index) => parseNode(child, widgetTypes, `${path}.children[${index}]`)),
+    divider: node.divider === true,
+    ...parseSizing(node, path),
+  };
+}
+
+/** Parse and validate a JSON layout; throws with the path of the first problem found */
+export function parseLayout(json: string, widgetTypes: string[]): LayoutNode {
+  return parseNode(JSON.parse(json) as unknown, widgetTypes, 'layout');
+}
+
+/**
+ * Work out where every widget goes within box.
+ * Widgets are inset by margin on the left and right; scale multiplies pixel sizes.
+ */
+export function arrangeLayout(root: LayoutNode, box: Rect, margin: number, scale: number, measure: MeasureWidget): ArrangedLayout {
+  const arranged: ArrangedLayout = { widgets: [], dividers: [] };
+
+  const place = (node: LayoutNode, nodeBox: Rect) => {
+    if ('widget' in node) {
+      arranged.widgets.push({
+        node,
+        area: { x: nodeBox.x + margin, y: nodeBox.y, width: nodeBox.width - margin * 2, height: nodeBox.height },
+      });
+      return;
+    }
+
+    const horizontal = node.direction === 'row';
+    const total = horizontal ? nodeBox.width : nodeBox.height;
+
+    // Fixed and measured sizes first; null marks a child that shares the leftover space
+    const sizes = node.children.map((child): number | null => {
+      if (child.size !== undefined) return Math.round(child.size <= 1 ? child.size * total : child.size * scale);
+      if (child.grow || !('widget' in child) || horizontal) return null;
+      return measure(child, nodeBox.width - margin * 2);
+    });
+    const growing = sizes.filter((size) => size === null).length;
+    let leftover = Math.max(0, total - sizes.reduce<number>((sum, size) => sum + (size ?? 0), 0));
+
+    let offset = horizontal ? nodeBox.x : nodeBox.y;
+    let remainingGrowers = growing;
+    node.children.forEach((child, index) => {
+      let size = sizes[index];
+      if (size === null) {
+        size = Math.floor(leftover / remainingGrowers);
+        leftover -= size;
+        remainingGrowers--;
+      }
+
+      if (node.divider && index > 0) {
+        arranged.dividers.push(horizontal
+          ? { x: offset - scale, y: nodeBox.y + margin, width: 2 * scale, height: nodeBox.height - 10 * scale - margin }
+          : { x: nodeBox.x + margin, y: offset - scale, width: nodeBox.width - margin * 2, height: 2 * scale });
+      }
+
+      place(child, horizontal
+        ? { x: offset, y: nodeBox.y, width: size, height: nodeBox.height }
+        : { x: nodeBox.x, y: offset, width: nodeBox.width, height: size });
+      offset += size;
+    });
+  };
+
+  place(root, box);
+  return arranged;
+}
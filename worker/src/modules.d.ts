@@ -0,0 +1,5 @@
+// Bundled as text by the [[rules]] entry in wrangler.toml
+declare module '*.bdf' {
+  const content: string;
+  export default content;
+}
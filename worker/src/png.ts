@@ -0,0 +1,94 @@
+/**
+ * PNG encoder for grayscale renders
+ * Writes either a grayscale or an indexed (palette) image at 1, 2, 4 or 8 bits per pixel.
+ * Scanlines are stored unfiltered and compressed with the runtime's CompressionStream.
+ */
+
+import { BitDepth, getGrayLevels, packPixels } from './quantize';
+
+// Grayscale stores levels directly; palette stores indices into a PLTE of grays
+export type PngMode = 'gray' | 'palette';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+const COLOR_TYPE_GRAY = 0;
+const COLOR_TYPE_PALETTE = 3;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Length, type, data, then a CRC over type and data
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// zlib-wrapped deflate, as the IDAT chunk expects
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Encode palette indices (as produced by quantizePixels) as a PNG.
+ * Gray levels are evenly spaced, so in grayscale mode an index is also its PNG sample value.
+ */
+export async function createPNG(
+  width: number,
+  height: number,
+  indices: Uint8Array,
+  bitDepth: BitDepth = 8,
+  mode: PngMode = 'gray'
+): Promise<Uint8Array> {
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = bitDepth;
+  header[9] = mode === 'palette' ? COLOR_TYPE_PALETTE : COLOR_TYPE_GRAY;
+  // Compression, filter and interlace methods all stay 0
+
+  // Each scanline starts with its filter type (0 = none)
+  const rowSize = Math.ceil((width * bitDepth) / 8);
+  const packed = packPixels(indices, width, height, bitDepth, rowSize);
+  const scanlines = new Uint8Array((rowSize + 1) * height);
+  for (let y = 0; y < height; y++) {
+    scanlines.set(packed.subarray(y * rowSize, (y + 1) * rowSize), y * (rowSize + 1) + 1);
+  }
+
+  const chunks = [createChunk('IHDR', header)];
+  if (mode === 'palette') {
+    const levels = getGrayLevels(bitDepth);
+    const palette = new Uint8Array(levels.length * 3);
+    levels.forEach((level, i) => palette.fill(level, i * 3, i * 3 + 3));
+    chunks.push(createChunk('PLTE', palette));
+  }
+  chunks.push(createChunk('IDAT', await deflate(scanlines)));
+  chunks.push(createChunk('IEND', new Uint8Array(0)));
+
+  const png = new Uint8Array(PNG_SIGNATURE.length + chunks.reduce((total, chunk) => total + chunk.length, 0));
+  png.set(PNG_SIGNATURE, 0);
+  let offset = PNG_SIGNATURE.length;
+  for (const chunk of chunks) {
+    png.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return png;
+}
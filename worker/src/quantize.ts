@@ -0,0 +1,128 @@
+/**
+ * Gray level reduction for low bit depth output
+ * Maps the 8-bit grayscale render onto the 2, 4 or 16 gray levels a panel actually shows.
+ * Flat UI colors snap to a level; anything in between can be dithered.
+ */
+
+export type BitDepth = 1 | 2 | 4 | 8;
+export type DitherMode = 'none' | 'floyd-steinberg' | 'ordered';
+
+export function parseBitDepth(value: string | null | undefined): BitDepth | undefined {
+  const depth = parseInt(value ?? '', 10);
+  return depth === 1 || depth === 2 || depth === 4 || depth === 8 ? depth : undefined;
+}
+
+export function parseDitherMode(value: string | null | undefined): DitherMode | undefined {
+  return value === 'none' || value === 'floyd-steinberg' || value === 'ordered' ? value : undefined;
+}
+
+/** Gray value of each palette index: 2^bitDepth levels spread evenly from black to white */
+export function getGrayLevels(bitDepth: BitDepth): number[] {
+  const count = 1 << bitDepth;
+  return Array.from({ length: count }, (_, index) => Math.round((index * 255) / (count - 1)));
+}
+
+// 4x4 Bayer matrix, thresholds 0-15
+const BAYER_4X4 = [
+  0, 8, 2, 10,
+  12, 4, 14, 6,
+  3, 11, 1, 9,
+  15, 7, 13, 5,
+];
+
+/**
+ * Convert grayscale pixels to palette indices for the given bit depth.
+ * Pixels in one of uiColors are never dithered, so text and rules stay crisp: they take the
+ * nearest level, except a gray that would disappear into white, which becomes a 50% checkerboard.
+ * At 8 bits every value is its own level and the pixels are returned unchanged.
+ */
+export function quantizePixels(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  bitDepth: BitDepth,
+  dither: DitherMode,
+  uiColors: number[]
+): Uint8Array {
+  if (bitDepth === 8) return pixels;
+
+  const levels = getGrayLevels(bitDepth);
+  const maxIndex = levels.length - 1;
+  const step = 255 / maxIndex;
+  const nearest = (value: number) => Math.min(maxIndex, Math.max(0, Math.round(value / step)));
+
+  // Index for even and odd (x + y) positions
+  const snapped = new Map<number, [number, number]>();
+  for (const color of uiColors) {
+    const index = nearest(color);
+    snapped.set(color, index === maxIndex && color < 255 ? [maxIndex - 1, maxIndex] : [index, index]);
+  }
+
+  const indices = new Uint8Array(width * height);
+  const errors = dither === 'floyd-steinberg' ? new Float32Array(width * height) : null;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      const value = pixels[i];
+
+      const fixed = snapped.get(value);
+      if (fixed) {
+        indices[i] = fixed[(x + y) & 1];
+        continue;
+      }
+
+      if (dither === 'ordered') {
+        const position = value / step;
+        const lower = Math.floor(position);
+        const threshold = (BAYER_4X4[(y & 3) * 4 + (x & 3)] + 0.5) / 16;
+        indices[i] = Math.min(maxIndex, position - lower > threshold ? lower + 1 : lower);
+      } else if (errors) {
+        const wanted = Math.min(255, Math.max(0, value + errors[i]));
+        const index = nearest(wanted);
+        indices[i] = index;
+
+        // Push the rounding error onto unvisited neighbours: 7/16 right, 3/16, 5/16 and 1/16 below
+        const error = wanted - levels[index];
+        if (x + 1 < width) errors[i + 1] += (error * 7) / 16;
+        if (y + 1 < height) {
+          if (x > 0) errors[i + width - 1] += (error * 3) / 16;
+          errors[i + width] += (error * 5) / 16;
+          if (x + 1 < width) errors[i + width + 1] += error / 16;
+        }
+      } else {
+        indices[i] = nearest(value);
+      }
+    }
+  }
+
+  return indices;
+}
+
+/**
+ * Pack palette indices into top-down rows of rowSize bytes, MSB first.
+ * rowSize can exceed the packed width to add padding (BMP rows are 4-byte aligned).
+ */
+export function packPixels(
+  indices: Uint8Array,
+  width: number,
+  height: number,
+  bitDepth: BitDepth,
+  rowSize: number = Math.ceil((width * bitDepth) / 8)
+): Uint8Array {
+  const packed = new Uint8Array(rowSize * height);
+  const pixelsPerByte = 8 / bitDepth;
+  for (let y = 0; y < height; y++) {
+    const rowOffset = y * rowSize;
+    for (let x = 0; x < width; x++) {
+      const index = indices[y * width + x];
+      if (bitDepth === 8) {
+        packed[rowOffset + x] = index;
+      } else {
+        const shift = 8 - bitDepth * (x % pixelsPerByte + 1);
+        packed[rowOffset + Math.floor(x / pixelsPerByte)] |= index << shift;
+      }
+    }
+  }
+  return packed;
+}
@@ -0,0 +1,47 @@
+/**
+ * Pre-rendered images
+ * The cron trigger draws each display ahead of time and stores the encoded image in the
+ * RENDERS KV namespace, so a device waking up gets it without waiting on calendar and
+ * weather APIs. Entries expire on their own; a request that finds none renders inline.
+ */
+
+export interface StoredRender {
+  body: Uint8Array;
+  contentType: string;
+  filename: string;
+  etag: string;
+  renderedAt: Date;
+}
+
+// Everything but the image travels as KV metadata (up to 1 KB)
+interface StoredRenderMetadata {
+  contentType: string;
+  filename: string;
+  etag: string;
+  renderedAt: string;
+}
+
+export async function loadStoredRender(renders: KVNamespace, key: string): Promise<StoredRender | null> {
+  const { value, metadata } = await renders.getWithMetadata<StoredRenderMetadata>(key, 'arrayBuffer');
+  if (value === null || metadata === null) return null;
+  return { body: new Uint8Array(value), ...metadata, renderedAt: new Date(metadata.renderedAt) };
+}
+
+/** What a stored image was rendered from, without downloading the image itself */
+export async function loadStoredRenderInfo(renders: KVNamespace, key: string): Promise<Omit<StoredRender, 'body'> | null> {
+  const { value, metadata } = await renders.getWithMetadata<StoredRenderMetadata>(key, 'stream');
+  await value?.cancel();
+  if (value === null || metadata === null) return null;
+  return { ...metadata, renderedAt: new Date(metadata.renderedAt) };
+}
+
+/** Store an image for ttl seconds (KV's minimum is 60) */
+export async function saveStoredRender(renders: KVNamespace, key: string, render: StoredRender, ttl: number): Promise<void> {
+  const metadata: StoredRenderMetadata = {
+    contentType: render.contentType,
+    filename: render.filename,
+    etag: render.etag,
+    renderedAt: render.renderedAt.toISOString(),
+  };
+  await renders.put(key, render.body, { expirationTtl: Math.max(60, ttl), metadata });
+}
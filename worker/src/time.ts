@@ -0,0 +1,121 @@
+/**
+ * Timezone helpers
+ * Workers run in UTC, so wall-clock conversions go through Intl
+ */
+
+// Calendar date + time of day with no zone attached
+export interface WallTime {
+  year: number;
+  month: number;  // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatterCache.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    getFormatter(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Wall-clock components of an instant in the given zone
+export function toWallTime(date: Date, timezone: string): WallTime {
+  const parts: { [key: string]: number } = {};
+  for (const part of getFormatter(timezone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+// Wall time encoded as if it were UTC; handy for date arithmetic and comparisons
+export function wallTimeToMs(wall: WallTime): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+}
+
+export function wallTimeFromMs(ms: number): WallTime {
+  const d = new Date(ms);
+  return {
+    year: d.getUTCFullYear(),
+    month: d.getUTCMonth() + 1,
+    day: d.getUTCDate(),
+    hour: d.getUTCHours(),
+    minute: d.getUTCMinutes(),
+    second: d.getUTCSeconds(),
+  };
+}
+
+// Offset of the zone from UTC at the given instant, in minutes (e.g. -240 for EDT)
+export function getTimezoneOffset(date: Date, timezone: string): number {
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((wallTimeToMs(toWallTime(date, timezone)) - wholeSeconds) / 60000);
+}
+
+// Instant at which the zone's clocks read the given wall time.
+// Times skipped by a DST jump resolve forward; repeated times resolve to the first occurrence.
+export function zonedTimeToUtc(wall: WallTime, timezone: string): Date {
+  const guess = wallTimeToMs(wall);
+  // Offsets either side of any transition near this wall time
+  const offsetBefore = getTimezoneOffset(new Date(guess - 86400000), timezone);
+  const offsetAfter = getTimezoneOffset(new Date(guess + 86400000), timezone);
+
+  let best: number | null = null;
+  for (const offset of [offsetBefore, offsetAfter]) {
+    const candidate = guess - offset * 60000;
+    if (getTimezoneOffset(new Date(candidate), timezone) === offset && (best === null || candidate < best)) {
+      best = candidate;
+    }
+  }
+
+  // No candidate round-trips: the wall time falls in a DST gap
+  return new Date(best ?? guess - offsetBefore * 60000);
+}
+
+// Calendar date of an instant in the zone, as "YYYY-MM-DD"; keys sort chronologically as strings
+export function toDateKey(date: Date, timezone: string): string {
+  const wall = toWallTime(date, timezone);
+  return `${wall.year}-${String(wall.month).padStart(2, '0')}-${String(wall.day).padStart(2, '0')}`;
+}
+
+// UTC midnight of a date key, e.g. for naming the weekday in UTC
+export function dateKeyToUtc(key: string): Date {
+  return new Date(`${key}T00:00:00Z`);
+}
+
+export function addDaysToKey(key: string, days: number): string {
+  return toDateKey(new Date(dateKeyToUtc(key).getTime() + days * 86400000), 'UTC');
+}
+
+export function daysBetweenKeys(from: string, to: string): number {
+  return Math.round((dateKeyToUtc(to).getTime() - dateKeyToUtc(from).getTime()) / 86400000);
+}
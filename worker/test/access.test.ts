@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mockCaches, mockFetch } from './helpers';
+
+let worker: typeof import('../src/index').default;
+
+beforeEach(async () => {
+  // Fresh module per test, so the in-memory rate limit counts start at zero
+  vi.resetModules();
+  ({ default: worker } = await import('../src/index'));
+  mockCaches();
+  mockFetch(() => new Response('offline', { status: 503 }));
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+// DEVICES namespace holding the given profiles under device:<token>
+function mockDevices(profiles: { [token: string]: unknown }) {
+  return {
+    get: vi.fn(async (key: string) => profiles[key.slice('device:'.length)] ?? null),
+  } as unknown as KVNamespace & { get: ReturnType<typeof vi.fn> };
+}
+
+const BASE_ENV = { DISPLAY_WIDTH: '480', DISPLAY_HEIGHT: '800', DEMO_MODE: 'true', AUTH_TOKENS: 'secret-token' };
+
+describe('device tokens', () => {
+  it('render registered devices without the shared token', async () => {
+    const devices = mockDevices({ 'kitchen-7f3a9c': { name: 'Kitchen', bitDepth: 1 } });
+    const response = await worker.fetch(new Request('https://worker.test/d/kitchen-7f3a9c'), { ...BASE_ENV, DEVICES: devices });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Bit-Depth')).toBe('1');
+  });
+
+  it('answer unknown tokens exactly like a bad credential', async () => {
+    const devices = mockDevices({});
+    const unknown = await worker.fetch(new Request('https://worker.test/d/unknown-1234'), { ...BASE_ENV, DEVICES: devices });
+    const badToken = await worker.fetch(new Request('https://worker.test/?token=wrong'), { ...BASE_ENV, DEVICES: devices });
+
+    expect(unknown.status).toBe(401);
+    expect([...unknown.headers]).toEqual([...badToken.headers]);
+    expect(await unknown.text()).toBe(await badToken.text());
+  });
+
+  it('are rate limited before the profile lookup', async () => {
+    const devices = mockDevices({});
+    const env = { ...BASE_ENV, DEVICES: devices, RATE_LIMIT: '2' };
+    for (let i = 0; i < 2; i++) {
+      expect((await worker.fetch(new Request('https://worker.test/?device=unknown-1234'), env)).status).toBe(401);
+    }
+    const limited = await worker.fetch(new Request('https://worker.test/?device=unknown-1234'), env);
+    expect(limited.status).toBe(429);
+    expect(devices.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('are ignored without a DEVICES namespace', async () => {
+    const withoutToken = await worker.fetch(new Request('https://worker.test/d/kitchen-7f3a9c'), BASE_ENV);
+    expect(withoutToken.status).toBe(401);
+
+    const withToken = await worker.fetch(new Request('https://worker.test/?device=kitchen-7f3a9c&token=secret-token'), BASE_ENV);
+    expect(withToken.status).toBe(200);
+  });
+});
+
+describe('rate limit', () => {
+  const OPEN_ENV = { DISPLAY_WIDTH: '480', DISPLAY_HEIGHT: '800', DEMO_MODE: 'true' };
+  const fromIp = (ip: string) => new Request('https://worker.test/', { headers: { 'CF-Connecting-IP': ip } });
+
+  function rateLimitWrites(): number {
+    const put = vi.mocked(caches.default.put);
+    return put.mock.calls.filter(([request]) => String(request).includes('rate-limit')).length;
+  }
+
+  it('is off by default for open deployments', async () => {
+    vi.spyOn(caches.default, 'put');
+    expect((await worker.fetch(fromIp('203.0.113.7'), OPEN_ENV)).status).toBe(200);
+    expect(rateLimitWrites()).toBe(0);
+  });
+
+  it('applies per IP to open deployments when RATE_LIMIT is set', async () => {
+    const env = { ...OPEN_ENV, RATE_LIMIT: '1' };
+    expect((await worker.fetch(fromIp('203.0.113.7'), env)).status).toBe(200);
+    expect((await worker.fetch(fromIp('203.0.113.7'), env)).status).toBe(429);
+    expect((await worker.fetch(fromIp('203.0.113.8'), env)).status).toBe(200);
+  });
+
+  it('caps the unauthorized images an IP can make the worker draw', async () => {
+    const env = { ...BASE_ENV, UNAUTHORIZED_RESPONSE: 'image', RATE_LIMIT: '1' };
+    const first = await worker.fetch(fromIp('203.0.113.7'), env);
+    expect(first.status).toBe(401);
+    expect(first.headers.get('Content-Type')).toBe('image/bmp');
+
+    const second = await worker.fetch(fromIp('203.0.113.7'), env);
+    expect(second.status).toBe(401);
+    expect(await second.text()).toBe('Unauthorized');
+  });
+
+  it('counts authenticated callers by default', async () => {
+    vi.spyOn(caches.default, 'put');
+    const request = new Request('https://worker.test/', { headers: { Authorization: 'Bearer secret-token' } });
+    expect((await worker.fetch(request, BASE_ENV)).status).toBe(200);
+    expect(rateLimitWrites()).toBe(1);
+  });
+});
@@ -0,0 +1,105 @@
+import { readFileSync } from 'node:fs';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchCalDavEvents, parseMultistatus } from '../src/caldav';
+import { mockFetch } from './helpers';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+}
+
+function summaries(calendars: string[]): string[] {
+  return calendars.flatMap((ics) => ics.match(/^SUMMARY:.*$/gm) ?? []);
+}
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('parseMultistatus', () => {
+  it('reads d:-prefixed responses with entity-escaped calendar-data', () => {
+    const calendars = parseMultistatus(fixture('multistatus-nextcloud.xml'));
+    expect(calendars).toHaveLength(2);
+    expect(calendars[0].startsWith('BEGIN:VCALENDAR')).toBe(true);
+    expect(summaries(calendars)).toEqual(['SUMMARY:Q&A <prep> – room 2', 'SUMMARY:Standup']);
+    expect(calendars[0]).toContain('VERSION:2.0\r\n');
+  });
+
+  it('ignores a non-200 propstat next to a 200 one', () => {
+    // The second response also carries a 404 propstat for a property the server lacks
+    expect(parseMultistatus(fixture('multistatus-nextcloud.xml'))[1]).toContain('UID:4D5E6F');
+  });
+
+  it('reads D:-prefixed responses with CDATA calendar-data, leaving its text as is', () => {
+    const calendars = parseMultistatus(fixture('multistatus-icloud.xml'));
+    expect(calendars).toHaveLength(1);
+    expect(summaries(calendars)).toEqual(['SUMMARY:Dentist & checkup']);
+  });
+
+  it('reads the default namespace and skips responses whose propstat failed', () => {
+    const calendars = parseMultistatus(fixture('multistatus-default-ns.xml'));
+    expect(calendars).toHaveLength(1);
+    expect(calendars[0]).toContain('UID:event-1');
+  });
+
+  it('returns nothing for an empty multistatus', () => {
+    expect(parseMultistatus('<d:multistatus xmlns:d="DAV:"/>')).toEqual([]);
+  });
+});
+
+describe('fetchCalDavEvents', () => {
+  const rangeStart = new Date('2026-10-19T04:00:00Z');
+  const rangeEnd = new Date('2026-10-26T04:00:00Z');
+
+  it('sends a calendar-query REPORT and parses the events it returns', async () => {
+    let report: Request | null = null;
+    let body = '';
+    mockFetch(async (request) => {
+      report = request;
+      body = await request.text();
+      return new Response(fixture('multistatus-nextcloud.xml'), { status: 207 });
+    });
+
+    const events = await fetchCalDavEvents(
+      'https://cloud.test/remote.php/dav/calendars/alex/personal/',
+      { username: 'alex', password: 'app-password' },
+      rangeStart,
+      rangeEnd,
+      'America/New_York'
+    );
+
+    expect(report!.method).toBe('REPORT');
+    expect(report!.headers.get('Depth')).toBe('1');
+    expect(report!.headers.get('Authorization')).toBe(`Basic ${btoa('alex:app-password')}`);
+    expect(body).toContain('<c:time-range start="20261019T040000Z" end="20261026T040000Z"/>');
+    // Sorted by start, across resources
+    expect(events.map((event) => [event.summary, event.start.toISOString()])).toEqual([
+      ['Standup', '2026-10-19T09:00:00.000Z'],
+      ['Q&A <prep> – room 2', '2026-10-20T14:00:00.000Z'],
+    ]);
+  });
+
+  it('resolves TZIDs in the returned resources', async () => {
+    mockFetch(() => new Response(fixture('multistatus-icloud.xml'), { status: 207 }));
+    const events = await fetchCalDavEvents('https://caldav.test/home/', null, rangeStart, rangeEnd, 'UTC');
+    expect(events[0].start.toISOString()).toBe('2026-10-21T14:00:00.000Z');
+  });
+
+  it('sends no Authorization header without credentials', async () => {
+    let authorization: string | null = 'unset';
+    mockFetch((request) => {
+      authorization = request.headers.get('Authorization');
+      return new Response(fixture('multistatus-default-ns.xml'), { status: 207 });
+    });
+    const events = await fetchCalDavEvents('https://radicale.test/alex/calendar.ics/', null, rangeStart, rangeEnd, 'UTC');
+    expect(authorization).toBeNull();
+    expect(events.map((event) => event.summary)).toEqual(['Day off']);
+  });
+
+  it('throws on an error status', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    mockFetch(() => new Response('Unauthorized', { status: 401, statusText: 'Unauthorized' }));
+    await expect(fetchCalDavEvents('https://cloud.test/cal/', { username: 'alex', password: 'wrong' }, rangeStart, rangeEnd, 'UTC'))
+      .rejects.toThrow('CalDAV error: 401');
+  });
+});
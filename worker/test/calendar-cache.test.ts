@@ -0,0 +1,85 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import worker from '../src/index';
+import { mockCaches, mockFetch } from './helpers';
+
+const ICS_URL = 'https://calendar.test/team.ics';
+
+const CALENDAR = [
+  'BEGIN:VCALENDAR',
+  'BEGIN:VEVENT',
+  'UID:review',
+  'DTSTART:20261019T150000Z',
+  'DTEND:20261019T160000Z',
+  'SUMMARY:Design review',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+interface DebugData {
+  days: Array<{ events: Array<{ title: string }> }>;
+  calendarStatus: { state: string; since?: string };
+}
+
+let calendarUp = true;
+
+beforeEach(() => {
+  calendarUp = true;
+  mockCaches();
+  mockFetch((request) => {
+    if (request.url === ICS_URL && calendarUp) return new Response(CALENDAR);
+    return new Response('offline', { status: 503 });
+  });
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+async function loadData(now: string, view = 'agenda'): Promise<DebugData> {
+  const response = await worker.fetch(new Request(`https://worker.test/debug/data?now=${now}&view=${view}`), {
+    DISPLAY_WIDTH: '480',
+    DISPLAY_HEIGHT: '800',
+    DEBUG_ROUTES: 'true',
+    LOCATION_TIMEZONE: 'UTC',
+    ICS_CALENDAR_URL: ICS_URL,
+  });
+  return await response.json() as DebugData;
+}
+
+function calendarWrites(): number {
+  const put = vi.mocked(caches.default.put);
+  return put.mock.calls.filter(([request]) => String(request).includes('calendar-last-good')).length;
+}
+
+function titles(data: DebugData): string[] {
+  return data.days.flatMap((day) => day.events.map((event) => event.title));
+}
+
+describe('last good calendar cache', () => {
+  it('serves the last good copy while a source is down', async () => {
+    await loadData('2026-10-19T08:00:00Z');
+    calendarUp = false;
+    const data = await loadData('2026-10-19T09:00:00Z');
+    expect(titles(data)).toEqual(['Design review']);
+    expect(data.calendarStatus).toEqual({ state: 'stale', since: '2026-10-19T08:00:00.000Z' });
+  });
+
+  it('skips rewriting an unchanged calendar until the refresh interval passes', async () => {
+    vi.spyOn(caches.default, 'put');
+    await loadData('2026-10-19T08:00:00Z');
+    await loadData('2026-10-19T08:30:00Z');
+    expect(calendarWrites()).toBe(1);
+    await loadData('2026-10-19T09:00:00Z');
+    expect(calendarWrites()).toBe(2);
+  });
+
+  it('keeps separate copies per range, so a shorter fetch never stands in for the month grid', async () => {
+    await loadData('2026-10-19T08:00:00Z', 'agenda');
+    calendarUp = false;
+    const data = await loadData('2026-10-19T09:00:00Z', 'month');
+    expect(data.calendarStatus).toEqual({ state: 'unavailable' });
+  });
+});
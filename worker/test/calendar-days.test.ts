@@ -0,0 +1,83 @@
+import { readFileSync } from 'node:fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import worker from '../src/index';
+import { mockCaches, mockFetch } from './helpers';
+
+const ICS_URL = 'https://calendar.test/dst.ics';
+
+interface DebugData {
+  days: Array<{ date: string; isToday: boolean; events: Array<{ title: string; span?: { day: number; days: number } }> }>;
+}
+
+beforeEach(() => {
+  mockCaches();
+  const calendar = readFileSync(new URL('./fixtures/dst.ics', import.meta.url), 'utf8');
+  mockFetch((request) => request.url === ICS_URL ? new Response(calendar) : new Response('offline', { status: 503 }));
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+// Agenda for a fixed clock, as { "YYYY-MM-DD": [titles] }
+async function agenda(now: string, timezone: string): Promise<{ [date: string]: string[] }> {
+  const response = await worker.fetch(new Request(`https://worker.test/debug/data?now=${now}`), {
+    DISPLAY_WIDTH: '480',
+    DISPLAY_HEIGHT: '800',
+    DEBUG_ROUTES: 'true',
+    LOCATION_TIMEZONE: timezone,
+    ICS_CALENDAR_URL: ICS_URL,
+  });
+  const data = await response.json() as DebugData;
+  return Object.fromEntries(data.days.map((day) => [day.date.slice(0, 10), day.events.map((event) => event.title)]));
+}
+
+describe('groupEventsByDay across DST changes', () => {
+  it('keeps the spring-forward day to its 23 hours', async () => {
+    // 01:00 EST, an hour before the clocks jump
+    const days = await agenda('2026-03-08T06:00:00Z', 'America/New_York');
+    expect(days['2026-03-08']).toEqual(['Across the gap', 'Spring evening until midnight', 'Spring late call']);
+    expect(days['2026-03-09']).toEqual(['Spring next midnight']);
+  });
+
+  it('keeps the fall-back day to its 25 hours', async () => {
+    // 00:30 EDT, before the repeated hour
+    const days = await agenda('2026-11-01T04:30:00Z', 'America/New_York');
+    expect(days['2026-11-01']).toEqual(['Repeated hour', 'Fall evening until midnight', 'Fall late call']);
+    expect(days['2026-11-02']).toEqual(['Fall next midnight']);
+  });
+
+  it('does not carry events ending exactly at midnight into the next day', async () => {
+    const spring = await agenda('2026-03-08T06:00:00Z', 'America/New_York');
+    const fall = await agenda('2026-11-01T04:30:00Z', 'America/New_York');
+    expect(spring['2026-03-09']).not.toContain('Spring evening until midnight');
+    expect(fall['2026-11-02']).not.toContain('Fall evening until midnight');
+  });
+});
+
+describe('groupEventsByDay with all-day events west of UTC', () => {
+  it('keeps DATE events on their calendar date late in the local evening', async () => {
+    // 23:30 PDT on Oct 19, already Oct 20 in UTC
+    const response = await worker.fetch(new Request('https://worker.test/debug/data?now=2026-10-20T06:30:00Z'), {
+      DISPLAY_WIDTH: '480',
+      DISPLAY_HEIGHT: '800',
+      DEBUG_ROUTES: 'true',
+      LOCATION_TIMEZONE: 'America/Los_Angeles',
+      ICS_CALENDAR_URL: ICS_URL,
+    });
+    const data = await response.json() as DebugData;
+
+    expect(data.days[0]).toMatchObject({ date: '2026-10-19T00:00:00.000Z', isToday: true, events: [] });
+    const byDate = Object.fromEntries(data.days.map((day) => [day.date.slice(0, 10), day.events]));
+    expect(byDate['2026-10-20'].map((event) => event.title)).toEqual(['Holiday']);
+    expect(['2026-10-21', '2026-10-22', '2026-10-23'].map((date) => byDate[date][0])).toMatchObject([
+      { title: 'Conference', span: { day: 1, days: 3 } },
+      { title: 'Conference', span: { day: 2, days: 3 } },
+      { title: 'Conference', span: { day: 3, days: 3 } },
+    ]);
+    expect(byDate['2026-10-24']).toBeUndefined();
+  });
+});
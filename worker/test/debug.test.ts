@@ -0,0 +1,51 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import worker from '../src/index';
+import { mockCaches, mockFetch } from './helpers';
+
+const ENV = { DISPLAY_WIDTH: '480', DISPLAY_HEIGHT: '800', DEBUG_ROUTES: 'true' };
+
+beforeEach(() => {
+  mockCaches();
+  mockFetch(() => new Response('offline', { status: 503 }));
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+function render(event: { [key: string]: unknown }): Promise<Response> {
+  const fixture = {
+    days: [{
+      label: 'TODAY',
+      isToday: true,
+      date: '2026-10-19T00:00:00Z',
+      events: [{ title: 'Offsite', start: '2026-10-19T13:00:00Z', end: '2026-10-19T14:00:00Z', ...event }],
+    }],
+  };
+  return worker.fetch(new Request('https://worker.test/debug/render?now=2026-10-19T14:30:00Z', {
+    method: 'POST',
+    body: JSON.stringify(fixture),
+  }), ENV);
+}
+
+describe('POST /debug/render', () => {
+  it('accepts valid RSVP states and spans', async () => {
+    const response = await render({ responseStatus: 'tentative', span: { day: 2, days: 3 } });
+    expect(response.status).toBe(200);
+  });
+
+  it.each([
+    [{ responseStatus: 'maybe' }, 'days[0].events[0].responseStatus must be one of'],
+    [{ responseStatus: 1 }, 'days[0].events[0].responseStatus must be one of'],
+    [{ span: { day: 3, days: 2 } }, 'days[0].events[0].span must be'],
+    [{ span: { day: 1.5, days: 2 } }, 'days[0].events[0].span must be'],
+    [{ span: { day: '1', days: '2' } }, 'days[0].events[0].span must be'],
+    [{ span: [1, 2] }, 'days[0].events[0].span must be'],
+  ])('rejects %j', async (event, message) => {
+    const response = await render(event);
+    expect(response.status).toBe(400);
+    expect(await response.text()).toContain(message);
+  });
+});
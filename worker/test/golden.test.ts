@@ -0,0 +1,218 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { inflateSync } from 'node:zlib';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import worker from '../src/index';
+import { createPNG } from '../src/png';
+import { mockCaches, mockFetch } from './helpers';
+
+/**
+ * Golden images: fixed data rendered through POST /debug/render and compared pixel for pixel
+ * with the PNGs in test/golden, so a change in PNG encoding alone does not fail. On a mismatch the actual image and a diff (changed pixels in
+ * black over a faded golden) go to test/golden/__diff__. UPDATE_GOLDENS=1 rewrites the
+ * goldens; missing ones are written on the first run, except under CI.
+ */
+
+const GOLDEN_DIR = new URL('./golden/', import.meta.url);
+const DIFF_DIR = new URL('./golden/__diff__/', import.meta.url);
+const WIDTH = 480;
+const HEIGHT = 800;
+
+const ENV = {
+  DISPLAY_WIDTH: String(WIDTH),
+  DISPLAY_HEIGHT: String(HEIGHT),
+  DEBUG_ROUTES: 'true',
+  LOCATION_TIMEZONE: 'America/New_York',
+  LOCATION_LABEL: 'BROOKLYN NY',
+  TIME_FORMAT: '24h',
+};
+
+const GENERATED_AT = '2026-10-19T14:30:00Z';  // 10:30 EDT, a Monday
+
+interface FixtureEvent {
+  title: string;
+  time: string;
+  start: string;
+  end: string;
+  isAllDay?: boolean;
+  location?: string;
+}
+
+function weather(conditionCode: number, condition: string) {
+  return {
+    temperature: 54,
+    temperatureHigh: 61,
+    temperatureLow: 47,
+    condition,
+    conditionCode,
+    daily: [19, 20, 21, 22, 23].map((day, i) => ({
+      date: `2026-10-${day}`,
+      high: 61 - i,
+      low: 47 - i,
+      conditionCode: [conditionCode, 2, 61, 0, 45][i],
+      precipitationProbability: [10, 20, 80, 0, 30][i],
+    })),
+    hourly: [],
+  };
+}
+
+// Timed event on Oct 19 or 20 at local (EDT) hour:minute
+function event(title: string, day: number, hour: number, minute: number, minutes: number, location?: string): FixtureEvent {
+  const start = new Date(Date.UTC(2026, 9, day, hour + 4, minute));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return {
+    title,
+    time: `${pad(hour)}:${pad(minute)}`,
+    start: start.toISOString(),
+    end: new Date(start.getTime() + minutes * 60000).toISOString(),
+    location,
+  };
+}
+
+function today(events: FixtureEvent[]) {
+  return { label: 'TODAY', isToday: true, date: '2026-10-19T00:00:00Z', events };
+}
+
+function tomorrow(events: FixtureEvent[]) {
+  return { label: 'TOMORROW', isToday: false, date: '2026-10-20T00:00:00Z', events };
+}
+
+const SCENARIOS: { [name: string]: unknown } = {
+  'empty-day': {
+    generatedAt: GENERATED_AT,
+    weather: weather(0, 'Clear'),
+    days: [today([])],
+  },
+  'overflow': {
+    generatedAt: GENERATED_AT,
+    weather: weather(2, 'Partly Cloudy'),
+    days: [
+      today(Array.from({ length: 16 }, (_, i) => event(`Back-to-back ${i + 1}`, 19, 8 + Math.floor(i / 2), (i % 2) * 30, 30))),
+      tomorrow([event('Client call', 20, 10, 0, 30)]),
+    ],
+  },
+  'long-title': {
+    generatedAt: GENERATED_AT,
+    weather: weather(61, 'Rain'),
+    days: [today([
+      event('Quarterly planning with finance, legal, procurement and the regional operations leads', 19, 9, 0, 90,
+        'Conference room 4B, north tower, fourteenth floor (badge access)'),
+      event('Supercalifragilisticexpialidociousnessdefinitelydoesnotfitononeline', 19, 13, 0, 30),
+    ])],
+  },
+  'unavailable': {
+    generatedAt: GENERATED_AT,
+    days: [today([])],
+    calendarStatus: { state: 'unavailable' },
+  },
+  'long-label': {
+    generatedAt: GENERATED_AT,
+    weather: weather(2, 'Partly Cloudy'),
+    days: [today([event('Team standup', 19, 9, 0, 15)])],
+  },
+};
+
+// Query parameters for scenarios that change settings rather than data
+const QUERIES: { [name: string]: string } = {
+  'long-label': 'label=San Francisco de Campeche',
+};
+
+// One render per weather icon, including the question mark for codes with no icon
+const ICONS: Array<[string, number, string]> = [
+  ['clear', 0, 'Clear'],
+  ['cloudy', 2, 'Partly Cloudy'],
+  ['fog', 45, 'Fog'],
+  ['rain', 61, 'Rain'],
+  ['snow', 71, 'Snow'],
+  ['thunderstorm', 95, 'Thunderstorm'],
+  ['unknown', 10, 'Unknown'],
+  ['unavailable', -1, 'Unavailable'],
+];
+for (const [name, code, condition] of ICONS) {
+  SCENARIOS[`weather-${name}`] = {
+    generatedAt: GENERATED_AT,
+    weather: weather(code, condition),
+    days: [today([event('Team standup', 19, 9, 0, 15)])],
+  };
+}
+
+async function render(fixture: unknown, query = ''): Promise<Uint8Array> {
+  const response = await worker.fetch(new Request(`https://worker.test/debug/render?format=png&bpp=8${query ? `&${query}` : ''}`, {
+    method: 'POST',
+    body: JSON.stringify(fixture),
+  }), ENV);
+  if (response.status !== 200) throw new Error(`Render failed: ${response.status} ${await response.text()}`);
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+// Pixels of an 8-bit grayscale PNG as written by createPNG (unfiltered scanlines)
+function decodeGray8(png: Uint8Array, width: number, height: number): Uint8Array {
+  const view = new DataView(png.buffer, png.byteOffset, png.byteLength);
+  const idat: Uint8Array[] = [];
+  for (let offset = 8; offset < png.length;) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...png.subarray(offset + 4, offset + 8));
+    if (type === 'IDAT') idat.push(png.subarray(offset + 8, offset + 8 + length));
+    offset += 12 + length;
+  }
+  const data = inflateSync(Buffer.concat(idat));
+  const pixels = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const row = y * (width + 1);
+    if (data[row] !== 0) throw new Error(`Unsupported PNG filter ${data[row]} on row ${y}`);
+    pixels.set(data.subarray(row + 1, row + 1 + width), y * width);
+  }
+  return pixels;
+}
+
+async function writeDiff(name: string, actual: Uint8Array, actualPixels: Uint8Array, goldenPixels: Uint8Array): Promise<number> {
+  const diff = new Uint8Array(WIDTH * HEIGHT);
+  let changed = 0;
+  for (let i = 0; i < diff.length; i++) {
+    if (actualPixels[i] !== goldenPixels[i]) {
+      diff[i] = 0;
+      changed++;
+    } else {
+      diff[i] = 255 - Math.floor((255 - goldenPixels[i]) / 4);
+    }
+  }
+  mkdirSync(DIFF_DIR, { recursive: true });
+  writeFileSync(new URL(`${name}.actual.png`, DIFF_DIR), actual);
+  writeFileSync(new URL(`${name}.diff.png`, DIFF_DIR), await createPNG(WIDTH, HEIGHT, diff, 8, 'gray'));
+  return changed;
+}
+
+beforeAll(() => {
+  mockCaches();
+  mockFetch(() => {
+    throw new Error('Golden renders must not reach the network');
+  });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterAll(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe('golden images', () => {
+  for (const [name, fixture] of Object.entries(SCENARIOS)) {
+    it(name, async () => {
+      const actual = await render(fixture, QUERIES[name]);
+      const goldenUrl = new URL(`${name}.png`, GOLDEN_DIR);
+
+      if (process.env.UPDATE_GOLDENS === '1' || (!existsSync(goldenUrl) && !process.env.CI)) {
+        mkdirSync(GOLDEN_DIR, { recursive: true });
+        writeFileSync(goldenUrl, actual);
+        return;
+      }
+      if (!existsSync(goldenUrl)) throw new Error(`Missing golden ${name}.png; run with UPDATE_GOLDENS=1`);
+
+      const actualPixels = decodeGray8(actual, WIDTH, HEIGHT);
+      const goldenPixels = decodeGray8(new Uint8Array(readFileSync(goldenUrl)), WIDTH, HEIGHT);
+      if (Buffer.compare(actualPixels, goldenPixels) !== 0) {
+        const changed = await writeDiff(name, actual, actualPixels, goldenPixels);
+        expect.fail(`${name}.png differs in ${changed} pixels; see test/golden/__diff__/${name}.diff.png`);
+      }
+    });
+  }
+});
@@ -0,0 +1,31 @@
+import { vi } from 'vitest';
+
+function keyOf(request: RequestInfo | URL): string {
+  return request instanceof Request ? request.url : String(request);
+}
+
+/** In-memory caches.default; entries never expire, so tests control time through what's stored */
+export function mockCaches(): Map<string, Response> {
+  const store = new Map<string, Response>();
+  vi.stubGlobal('caches', {
+    default: {
+      match: async (request: RequestInfo | URL) => store.get(keyOf(request))?.clone(),
+      put: async (request: RequestInfo | URL, response: Response) => {
+        store.set(keyOf(request), response.clone());
+      },
+      delete: async (request: RequestInfo | URL) => store.delete(keyOf(request)),
+    },
+  });
+  return store;
+}
+
+/** Route every fetch to handler, so nothing reaches the network */
+export function mockFetch(handler: (request: Request) => Response | Promise<Response>) {
+  const fetchMock = vi.fn(async (input: RequestInfo | URL, init?: RequestInit) => handler(new Request(input, init)));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
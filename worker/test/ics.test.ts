@@ -0,0 +1,115 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { IcsEvent, parseIcsEvents } from '../src/ics';
+
+function fixture(name: string): string {
+  return readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8');
+}
+
+function parse(name: string, from: string, to: string, timezone = 'America/Chicago'): IcsEvent[] {
+  return parseIcsEvents(fixture(name), new Date(from), new Date(to), timezone);
+}
+
+function find(events: IcsEvent[], summary: string): IcsEvent {
+  const event = events.find((e) => e.summary === summary);
+  if (!event) throw new Error(`No event "${summary}"`);
+  return event;
+}
+
+describe('parseIcsEvents: time zones and dates', () => {
+  const events = parse('timezones.ics', '2026-01-01T00:00:00Z', '2027-01-01T00:00:00Z');
+
+  it('resolves IANA TZIDs', () => {
+    const event = find(events, 'IANA summer');
+    expect(event.start.toISOString()).toBe('2026-07-15T13:00:00.000Z');
+    expect(event.end.toISOString()).toBe('2026-07-15T14:00:00.000Z');
+  });
+
+  it('resolves custom VTIMEZONE definitions on both sides of DST', () => {
+    expect(find(events, 'Custom summer').start.toISOString()).toBe('2026-07-15T13:00:00.000Z');
+    const winter = find(events, 'Custom winter');
+    expect(winter.start.toISOString()).toBe('2026-01-15T14:00:00.000Z');
+    expect(winter.end.toISOString()).toBe('2026-01-15T14:30:00.000Z');
+  });
+
+  it('accepts prefixed TZIDs and DURATION', () => {
+    const event = find(events, 'Prefixed TZID');
+    expect(event.start.toISOString()).toBe('2026-07-15T06:00:00.000Z');
+    expect(event.end.toISOString()).toBe('2026-07-15T06:45:00.000Z');
+  });
+
+  it('keeps DATE values as all-day UTC midnights', () => {
+    const event = find(events, 'Two-day offsite');
+    expect(event.isAllDay).toBe(true);
+    expect(event.start.toISOString()).toBe('2026-07-16T00:00:00.000Z');
+    expect(event.end.toISOString()).toBe('2026-07-18T00:00:00.000Z');
+    expect(event.location).toBe('Lake house, north shore');
+  });
+
+  it('reads floating times in the default zone', () => {
+    expect(find(events, 'Floating').start.toISOString()).toBe('2026-07-17T13:00:00.000Z');
+  });
+});
+
+describe('parseIcsEvents: recurrence', () => {
+  const events = parse('recurrence.ics', '2026-03-01T00:00:00Z', '2026-07-01T00:00:00Z');
+  const starts = (summary: string) => events.filter((e) => e.summary === summary).map((e) => e.start.toISOString());
+
+  it('expands BYDAY up to UNTIL, with EXDATE, RDATE and overrides', () => {
+    expect(starts('Standup')).toEqual([
+      '2026-03-02T15:00:00.000Z',  // EST
+      // Mar 4 excluded, Mar 9 moved, Mar 11 cancelled
+      '2026-03-16T14:00:00.000Z',  // EDT
+      '2026-03-18T14:00:00.000Z',  // Exactly at UNTIL
+      '2026-03-20T19:00:00.000Z',  // RDATE
+    ]);
+    expect(starts('Standup (moved)')).toEqual(['2026-03-10T15:00:00.000Z']);
+  });
+
+  it('stops after COUNT instances', () => {
+    expect(starts('Month end review')).toEqual([
+      '2026-03-27T12:00:00.000Z',
+      '2026-04-24T12:00:00.000Z',
+      '2026-05-29T12:00:00.000Z',
+    ]);
+  });
+
+  it('applies DATE EXDATEs to all-day series', () => {
+    expect(starts('Birthday (skipped this year)')).toEqual([]);
+    const nextYear = parse('recurrence.ics', '2027-04-01T00:00:00Z', '2027-05-01T00:00:00Z');
+    expect(find(nextYear, 'Birthday (skipped this year)').start.toISOString()).toBe('2027-04-12T00:00:00.000Z');
+  });
+
+  it('only returns instances overlapping the range', () => {
+    const window = parse('recurrence.ics', '2026-03-15T00:00:00Z', '2026-03-19T00:00:00Z');
+    expect(window.map((e) => e.start.toISOString())).toEqual(['2026-03-16T14:00:00.000Z', '2026-03-18T14:00:00.000Z']);
+  });
+});
+
+describe('parseIcsEvents: long-running series', () => {
+  it('still expands series that started decades before the range', () => {
+    const events = parse('old-series.ics', '2026-10-19T04:00:00Z', '2026-10-26T04:00:00Z', 'America/New_York');
+    const pages = events.filter((e) => e.summary === 'Morning pages');
+    expect(pages).toHaveLength(7);
+    expect(pages[0].start.toISOString()).toBe('2026-10-19T12:30:00.000Z');
+    // 1985-01-07 plus a whole number of fortnights
+    expect(find(events, 'Book club').start.toISOString()).toBe('2026-10-19T22:00:00.000Z');
+    expect(find(events, 'Pay rent').start.toISOString()).toBe('2026-10-20T00:00:00.000Z');
+  });
+
+  it('parses an Outlook feed with a custom VTIMEZONE quickly', () => {
+    const text = fixture('outlook-weekly.ics');
+    const started = performance.now();
+    const events = parseIcsEvents(text, new Date('2026-10-19T04:00:00Z'), new Date('2026-10-24T04:00:00Z'), 'UTC');
+    const elapsed = performance.now() - started;
+
+    expect(events).toHaveLength(20);
+    expect(events[0].start.toISOString()).toBe('2026-10-19T13:00:00.000Z');
+    expect(elapsed).toBeLessThan(1000);
+  });
+
+  it('honours EXDATEs in Outlook series', () => {
+    const events = parseIcsEvents(fixture('outlook-weekly.ics'), new Date('2025-12-22T05:00:00Z'), new Date('2025-12-27T05:00:00Z'), 'UTC');
+    expect(events).toEqual([]);
+  });
+});
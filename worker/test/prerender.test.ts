@@ -0,0 +1,83 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import worker from '../src/index';
+import { mockCaches, mockFetch } from './helpers';
+
+const ICS_URL = 'https://calendar.test/team.ics';
+
+const CALENDAR = [
+  'BEGIN:VCALENDAR',
+  'BEGIN:VEVENT',
+  'UID:review',
+  'DTSTART:20261019T150000Z',
+  'DTEND:20261019T160000Z',
+  'SUMMARY:Design review',
+  'END:VEVENT',
+  'END:VCALENDAR',
+].join('\r\n');
+
+beforeEach(() => {
+  mockCaches();
+  mockFetch((request) => request.url === ICS_URL ? new Response(CALENDAR) : new Response('offline', { status: 503 }));
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+// RENDERS namespace backed by a Map; entries never expire
+function mockRenders() {
+  const store = new Map<string, { value: ArrayBuffer; metadata: unknown }>();
+  return {
+    getWithMetadata: vi.fn(async (key: string, type: string) => {
+      const entry = store.get(key);
+      if (!entry) return { value: null, metadata: null };
+      return { value: type === 'stream' ? new Response(entry.value).body : entry.value, metadata: entry.metadata };
+    }),
+    put: vi.fn(async (key: string, value: Uint8Array, options: { metadata: unknown }) => {
+      store.set(key, { value: value.slice().buffer, metadata: options.metadata });
+    }),
+  } as unknown as KVNamespace & { put: ReturnType<typeof vi.fn> };
+}
+
+const ENV = { DISPLAY_WIDTH: '480', DISPLAY_HEIGHT: '800', ICS_CALENDAR_URL: ICS_URL, LOCATION_TIMEZONE: 'America/New_York' };
+
+function run(renders: KVNamespace, time: string): Promise<void> {
+  return worker.scheduled({ scheduledTime: Date.parse(time) } as ScheduledController, { ...ENV, RENDERS: renders });
+}
+
+describe('scheduled pre-render', () => {
+  it('skips the KV write when the image has not changed', async () => {
+    const renders = mockRenders();
+    await run(renders, '2026-10-19T14:30:00Z');
+    await run(renders, '2026-10-19T14:35:00Z');
+    expect(renders.put).toHaveBeenCalledTimes(1);
+  });
+
+  it('rewrites an unchanged image once half its TTL is gone', async () => {
+    const renders = mockRenders();
+    await run(renders, '2026-10-19T14:30:00Z');
+    await run(renders, '2026-10-19T14:37:00Z');
+    expect(renders.put).toHaveBeenCalledTimes(1);
+    await run(renders, '2026-10-19T14:38:00Z');
+    expect(renders.put).toHaveBeenCalledTimes(2);
+  });
+
+  it('writes as soon as the image changes', async () => {
+    const renders = mockRenders();
+    // The review starts in between, so it is drawn as in progress
+    await run(renders, '2026-10-19T14:58:00Z');
+    await run(renders, '2026-10-19T15:01:00Z');
+    expect(renders.put).toHaveBeenCalledTimes(2);
+  });
+
+  it('serves the stored image to a request that matches it', async () => {
+    const renders = mockRenders();
+    await run(renders, '2026-10-19T14:30:00Z');
+    const response = await worker.fetch(new Request('https://worker.test/'), { ...ENV, RENDERS: renders });
+    expect(response.status).toBe(200);
+    expect(vi.mocked(console.log)).toHaveBeenCalledWith('Using image pre-rendered at 2026-10-19T14:30:00.000Z');
+  });
+});
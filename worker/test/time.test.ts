@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { WallTime, getTimezoneOffset, toDateKey, zonedTimeToUtc } from '../src/time';
+
+function wall(value: string): WallTime {
+  const [date, time = '00:00'] = value.split('T');
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  return { year, month, day, hour, minute, second: 0 };
+}
+
+function utc(value: string, timezone: string): string {
+  return zonedTimeToUtc(wall(value), timezone).toISOString();
+}
+
+describe('zonedTimeToUtc', () => {
+  it('finds local midnights either side of the spring-forward day', () => {
+    expect(utc('2026-03-08T00:00', 'America/New_York')).toBe('2026-03-08T05:00:00.000Z');
+    expect(utc('2026-03-09T00:00', 'America/New_York')).toBe('2026-03-09T04:00:00.000Z');
+  });
+
+  it('finds local midnights either side of the fall-back day', () => {
+    expect(utc('2026-11-01T00:00', 'America/New_York')).toBe('2026-11-01T04:00:00.000Z');
+    expect(utc('2026-11-02T00:00', 'America/New_York')).toBe('2026-11-02T05:00:00.000Z');
+  });
+
+  it('moves times skipped by spring-forward ahead by the gap', () => {
+    // 02:30 never happens; it reads as 03:30 EDT
+    expect(utc('2026-03-08T02:30', 'America/New_York')).toBe('2026-03-08T07:30:00.000Z');
+  });
+
+  it('resolves times repeated by fall-back to their first occurrence', () => {
+    expect(utc('2026-11-01T01:30', 'America/New_York')).toBe('2026-11-01T05:30:00.000Z');
+  });
+
+  it('handles southern-hemisphere transitions', () => {
+    // Sydney: AEDT ends 2026-04-05 03:00, AEST ends 2026-10-04 02:00
+    expect(utc('2026-04-05T00:00', 'Australia/Sydney')).toBe('2026-04-04T13:00:00.000Z');
+    expect(utc('2026-04-06T00:00', 'Australia/Sydney')).toBe('2026-04-05T14:00:00.000Z');
+    expect(utc('2026-10-04T02:30', 'Australia/Sydney')).toBe('2026-10-03T16:30:00.000Z');
+  });
+
+  it('round-trips through toDateKey for every midnight of a year', () => {
+    for (const timezone of ['America/New_York', 'Europe/London', 'Australia/Sydney', 'Pacific/Honolulu']) {
+      for (let day = 0; day < 365; day++) {
+        const date = new Date(Date.UTC(2026, 0, 1 + day));
+        const key = date.toISOString().slice(0, 10);
+        const midnight = zonedTimeToUtc(wall(key), timezone);
+        expect(toDateKey(midnight, timezone)).toBe(key);
+        expect(toDateKey(new Date(midnight.getTime() - 1), timezone)).not.toBe(key);
+      }
+    }
+  });
+});
+
+describe('getTimezoneOffset', () => {
+  it('follows DST', () => {
+    expect(getTimezoneOffset(new Date('2026-01-15T12:00:00Z'), 'America/New_York')).toBe(-300);
+    expect(getTimezoneOffset(new Date('2026-07-15T12:00:00Z'), 'America/New_York')).toBe(-240);
+  });
+});
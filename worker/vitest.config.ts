@@ -0,0 +1,18 @@
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  plugins: [
+    // Bitmap fonts are imported as strings, as wrangler.toml's [[rules]] does for the worker
+    {
+      name: 'bdf-text',
+      transform(code, id) {
+        if (id.endsWith('.bdf')) return { code: `export default ${JSON.stringify(code)};`, map: null };
+      },
+    },
+  ],
+  test: {
+    include: ['test/**/*.test.ts'],
+    // The worker logs every cache hit and fetch; only show that for tests that fail
+    silent: 'passed-only',
+  },
+});